@@ -1,13 +1,14 @@
 import { StatusBar } from 'expo-status-bar';
-import { StyleSheet, View } from 'react-native';
+import { StyleSheet } from 'react-native';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { SimpleGameEngine } from './components/SimpleGameEngine';
 
 export default function App() {
   return (
-    <View style={styles.container}>
+    <GestureHandlerRootView style={styles.container}>
       <SimpleGameEngine />
       <StatusBar style="light" />
-    </View>
+    </GestureHandlerRootView>
   );
 }
 
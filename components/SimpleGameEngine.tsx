@@ -1,77 +1,167 @@
-import React, { useEffect, useState, useCallback } from 'react';
-import { View, Dimensions, Text, TouchableOpacity, TouchableWithoutFeedback, ScrollView } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Ball, Obstacle, Coin, GameState, GameConfig, Vector2, GameScreen, BallSkin, LeaderboardEntry, LeaderboardCategory, DailyReward, Achievement } from '../types/game';
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import { View, Dimensions, Text, TextInput, TouchableOpacity, TouchableWithoutFeedback, ScrollView, AppState, Switch, Platform, Share } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { GameState, GameConfig, Obstacle, Vector2, BallSkin, LeaderboardEntry, LeaderboardCategory, DailyReward, Achievement, SimulationState, Replay, SaveData, CoinTransactionType, PowerUpType, DifficultyPresetId, ProfileData, LevelDefinition, LeaderboardBoard, RunStats, AudioSettings, PlayerSettings, CoinTransaction, Kick, SimulationInput, ControlScheme, LeaderboardScope, LeaderboardWindow, RunScore, ScoreSubmission } from '../types/game';
+import { createSimulation, FIXED_TIMESTEP, getSpeedMultiplier, interpolateSimulation, reviveSimulation, step } from '../game/simulation';
+import { DIFFICULTY_PRESET_IDS, DIFFICULTY_PRESETS } from '../game/difficulty';
+import { describeGoal, getGoalProgress, getLevel, getLevelStars, isLevelUnlocked, LEVEL_STAR_REWARD, LEVELS } from '../game/levels';
+import { createFixedStepLoop } from '../game/loop';
+import { CHARGE_START_SECONDS, interpretTouch } from '../game/controls';
+import { COMBO_BAND, getComboMultiplier, getPoints } from '../game/scoring';
+import { createEventEmitter, emitStepEvents, EngineEvents } from '../game/events';
+import { createRng, createSeed, Rng } from '../game/rng';
+import { DAILY_CHALLENGE_FIELD, DAILY_CHALLENGE_PRESET, getChallengeDate, getDailyChallengeReward, getDailyChallengeSeed } from '../game/dailyChallenge';
+import { BALL_SKINS, DAILY_REWARDS, INITIAL_ACHIEVEMENTS, POWER_UP_TYPES, POWER_UPS } from '../game/catalog';
+import { advancePlayback, canPlayReplay, createReplay, recordRevive, recordStep, ReplayPlayback, startPlayback } from '../game/replay';
+import { OBSTACLE_BEHAVIOURS } from '../game/obstacles';
+import { MAX_PLAYER_NAME_LENGTH, normalizeFriendCode, normalizePlayerName, validateFriendCode, validatePlayerName } from '../game/player';
+import { addProfile, deleteProfile, getAllProfiles, getNamesInUse, getProfileData, renameProfile, switchProfile, updateProfile } from '../game/profiles';
+import { addRun, createRunEntry, getRank, getWindowEnd, getWindowEntries, getWindowStart, mergeBests, pruneRunHistory, recordRun, scoreRun, toScoreSubmission } from '../game/leaderboard';
+import { checkRun } from '../game/plausibility';
+import { getBallHitbox, getCoinHitbox, getObstacleHitbox, getPowerUpHitbox, Hitbox } from '../game/collision';
+import { createDefaultProfile, createDefaultSave, loadSave, writeSave } from '../services/saveGame';
+import { AudioManager, createAudioManager, getMusicRate, MusicTrack } from '../services/audio';
+import { createHapticsManager, HapticsManager } from '../services/haptics';
+import { createWebInput, InputAction, moveFocus, WebInput } from '../services/webInput';
+import { createWalletService, getSignedAmount, TransactionRequest, WalletService } from '../services/wallet';
+import { createHttpLeaderboardClient, LEADERBOARD_URL, LeaderboardPage } from '../services/leaderboardClient';
+import { createScoreQueue, ScoreQueue } from '../services/scoreQueue';
+import { BackupInfo, createLocalBackupProvider, pickBackupFile, shareBackupFile } from '../services/backup';
+import { applySaveImport, createSaveExport, encodeSaveCode, ImportMode, readSaveImport, SaveImport, serializeSaveExport } from '../services/saveTransfer';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
-const BASE_CONFIG: GameConfig = {
-  gravity: 0.3,
-  ballRadius: 25,
+const BALL_RADIUS = 25;
+
+const createConfig = (difficulty: DifficultyPresetId): GameConfig => ({
+  ballRadius: BALL_RADIUS,
   screenWidth: SCREEN_WIDTH,
   screenHeight: SCREEN_HEIGHT,
-  obstacleSpeed: 1.5,
-  spawnRate: 0.008,
+  curves: DIFFICULTY_PRESETS[difficulty].curves,
+});
+
+// How a run's field is fitted to the screen. Most runs are played on a field
+// the size of the screen; the daily challenge, and replays recorded on other
+// screens, are drawn scaled to fit and centred.
+const getFieldFit = (config: GameConfig) => {
+  const scale = Math.min(SCREEN_WIDTH / config.screenWidth, SCREEN_HEIGHT / config.screenHeight);
+  return {
+    scale,
+    left: (SCREEN_WIDTH - config.screenWidth * scale) / 2,
+    top: (SCREEN_HEIGHT - config.screenHeight * scale) / 2,
+  };
 };
 
-// Difficulty scaling function
-const getDifficultyMultiplier = (score: number): { speedMultiplier: number; spawnMultiplier: number } => {
-  const timeInSeconds = score / 60;
-
-  // Progressive difficulty that caps out to prevent impossibility
-  const speedMultiplier = Math.min(1 + (timeInSeconds / 120) * 0.8, 2.2); // Max 2.2x speed after 2 minutes
-  const spawnMultiplier = Math.min(1 + (timeInSeconds / 90) * 2, 3.5); // Max 3.5x spawn rate after 1.5 minutes
+const LEADERBOARD_BOARDS: { id: LeaderboardBoard; label: string }[] = [
+  ...DIFFICULTY_PRESET_IDS.map(id => ({ id, label: `${DIFFICULTY_PRESETS[id].emoji} ${DIFFICULTY_PRESETS[id].name}` })),
+  { id: 'daily', label: '📅 Daily' },
+];
 
-  return { speedMultiplier, spawnMultiplier };
+// How each leaderboard category ranks entries and shows their best run
+const LEADERBOARD_CATEGORIES: Record<LeaderboardCategory, {
+  label: string;
+  getBest: (entry: LeaderboardEntry) => { score: number; skin: string; timestamp: number; replay?: Replay };
+  formatScore: (score: number) => string;
+  describeEntry: (entry: LeaderboardEntry) => string; // the entry's other bests
+}> = {
+  time: {
+    label: '⏱️ Time',
+    getBest: entry => ({ score: entry.bestTime, skin: entry.bestTimeSkin, timestamp: entry.bestTimeTimestamp, replay: entry.bestTimeReplay }),
+    formatScore: score => `${score}s`,
+    describeEntry: entry => `${entry.bestCoins} coins`,
+  },
+  coins: {
+    label: '🪙 Coins',
+    getBest: entry => ({ score: entry.bestCoins, skin: entry.bestCoinsSkin, timestamp: entry.bestCoinsTimestamp, replay: entry.bestCoinsReplay }),
+    formatScore: score => `${score} 🪙`,
+    describeEntry: entry => `${entry.bestTime}s survived`,
+  },
+  points: {
+    label: '⭐ Points',
+    getBest: entry => ({ score: entry.bestPoints, skin: entry.bestPointsSkin, timestamp: entry.bestPointsTimestamp, replay: entry.bestPointsReplay }),
+    formatScore: score => `${score} pts`,
+    describeEntry: entry => `${entry.bestTime}s survived`,
+  },
 };
 
-// Ball skins data
-const BALL_SKINS: BallSkin[] = [
-  { id: 'classic', name: 'Classic', emoji: '⚽', coinPrice: 0, cashPrice: 0, unlocked: true },
-  { id: 'basketball', name: 'Basketball', emoji: '🏀', coinPrice: 100, cashPrice: 99, unlocked: false },
-  { id: 'tennis', name: 'Tennis Ball', emoji: '🎾', coinPrice: 150, cashPrice: 99, unlocked: false },
-  { id: 'volleyball', name: 'Volleyball', emoji: '🏐', coinPrice: 200, cashPrice: 149, unlocked: false },
-  { id: 'football', name: 'American Football', emoji: '🏈', coinPrice: 250, cashPrice: 149, unlocked: false },
-  { id: 'baseball', name: 'Baseball', emoji: '⚾', coinPrice: 300, cashPrice: 199, unlocked: false },
-  { id: 'golf', name: 'Golf Ball', emoji: '⛳', coinPrice: 350, cashPrice: 199, unlocked: false },
-  { id: 'crystal', name: 'Crystal Ball', emoji: '🔮', coinPrice: 500, cashPrice: 299, unlocked: false },
+const LEADERBOARD_CATEGORY_IDS = Object.keys(LEADERBOARD_CATEGORIES) as LeaderboardCategory[];
+
+const LEADERBOARD_SCOPES: { id: LeaderboardScope; label: string }[] = [
+  { id: 'global', label: '🌍 Global' },
+  { id: 'friends', label: '👥 Friends' },
+  { id: 'device', label: '📱 This Device' },
 ];
 
-// Daily rewards data
-const DAILY_REWARDS: DailyReward[] = [
-  { day: 1, coins: 10, description: "Welcome back!", claimed: false },
-  { day: 2, coins: 15, description: "Keep it up!", claimed: false },
-  { day: 3, coins: 20, description: "Great streak!", claimed: false },
-  { day: 4, coins: 25, description: "You're on fire!", claimed: false },
-  { day: 5, coins: 30, description: "Amazing dedication!", claimed: false },
-  { day: 6, coins: 40, description: "Almost there!", claimed: false },
-  { day: 7, coins: 50, description: "Weekly champion!", claimed: false },
+const LEADERBOARD_WINDOWS: { id: LeaderboardWindow; label: string }[] = [
+  { id: 'today', label: 'Today' },
+  { id: 'week', label: 'This Week' },
+  { id: 'allTime', label: 'All Time' },
 ];
 
-// Achievements data
-const INITIAL_ACHIEVEMENTS: Achievement[] = [
-  { id: 'first_game', title: 'Getting Started', description: 'Play your first game', requirement: 1, progress: 0, completed: false, reward: 10, icon: '🎮', type: 'games' },
-  { id: 'collect_50_coins', title: 'Coin Collector', description: 'Collect 50 coins in total', requirement: 50, progress: 0, completed: false, reward: 20, icon: '🪙', type: 'coins' },
-  { id: 'survive_60s', title: 'Survivor', description: 'Survive for 60 seconds in one game', requirement: 60, progress: 0, completed: false, reward: 30, icon: '⏱️', type: 'time' },
-  { id: 'play_10_games', title: 'Dedicated Player', description: 'Play 10 games', requirement: 10, progress: 0, completed: false, reward: 25, icon: '🏆', type: 'games' },
-  { id: 'collect_3_skins', title: 'Fashion Forward', description: 'Unlock 3 different ball skins', requirement: 3, progress: 1, completed: false, reward: 40, icon: '👕', type: 'skins' },
-  { id: 'collect_100_one_game', title: 'Treasure Hunter', description: 'Collect 100 coins in one game', requirement: 100, progress: 0, completed: false, reward: 50, icon: '💰', type: 'coins' },
-  { id: 'survive_120s', title: 'Master Survivor', description: 'Survive for 2 minutes in one game', requirement: 120, progress: 0, completed: false, reward: 75, icon: '🥇', type: 'time' },
-  { id: 'login_streak', title: 'Daily Champion', description: 'Login for 7 days in a row', requirement: 7, progress: 0, completed: false, reward: 100, icon: '📅', type: 'special' },
+const LEADERBOARD_SIZE = 10;
+
+const leaderboardClient = LEADERBOARD_URL ? createHttpLeaderboardClient(LEADERBOARD_URL) : null;
+
+// The file system isn't available on web, where saves move by code only
+const backupProvider = Platform.OS === 'web' ? null : createLocalBackupProvider();
+
+const TOAST_DURATION_MS = 2500;
+
+const CONTROL_SCHEMES: { id: ControlScheme; label: string; description: string }[] = [
+  { id: 'tap', label: '👆 Classic', description: 'Tap to kick the ball up and toward the side you tapped' },
+  { id: 'gesture', label: '👋 Gestures', description: 'Tap as usual, swipe to aim a kick and hold to charge a power kick' },
 ];
 
+const TRANSACTION_ICONS: Record<CoinTransactionType, string> = {
+  earn: '⚽',
+  spend: '🛍️',
+  reward: '🎁',
+  refund: '↩️',
+};
+
+// The simulation as drawn, published by the game loop once per frame
+interface FramePublisher {
+  get: () => SimulationState;
+  publish: (simulation: SimulationState) => void;
+  subscribe: (listener: (simulation: SimulationState) => void) => () => void;
+}
+
+const createFramePublisher = (initial: SimulationState): FramePublisher => {
+  const events = createEventEmitter<{ frame: SimulationState }>();
+  let latest = initial;
+
+  return {
+    get: () => latest,
+    publish: simulation => {
+      latest = simulation;
+      events.emit('frame', simulation);
+    },
+    subscribe: listener => events.on('frame', listener),
+  };
+};
+
+// Redraws the game field for every published frame on its own, so the
+// engine only re-renders when its state really changes
+const FrameView: React.FC<{ frames: FramePublisher; render: (simulation: SimulationState) => React.ReactNode }> = ({
+  frames,
+  render,
+}) => {
+  const [simulation, setSimulation] = useState(frames.get);
+  useEffect(() => {
+    setSimulation(frames.get());
+    return frames.subscribe(setSimulation);
+  }, [frames]);
+  return <>{render(simulation)}</>;
+};
+
 export const SimpleGameEngine: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>({
-    ball: {
-      position: { x: SCREEN_WIDTH / 2, y: SCREEN_HEIGHT / 2 },
-      velocity: { x: 0, y: 0 },
-      radius: BASE_CONFIG.ballRadius,
-    },
-    obstacles: [],
-    coins: [],
-    score: 0,
-    highScore: 0,
+    simulation: createSimulation(createConfig('normal')),
+    difficulty: 'normal',
+    highScores: createDefaultSave().highScores,
     collectedCoins: 0,
+    coinLedger: [],
+    powerUpInventory: createDefaultSave().powerUpInventory,
     currentScreen: 'menu',
     selectedSkin: 'classic',
     unlockedSkins: ['classic'],
@@ -79,51 +169,205 @@ export const SimpleGameEngine: React.FC = () => {
     leaderboard: [],
     playerName: 'Player',
     leaderboardCategory: 'time',
+    leaderboardBoard: 'normal',
+    leaderboardScope: 'global',
+    leaderboardWindow: 'allTime',
+    runHistory: [],
+    playerId: '',
+    friendIds: [],
+    pendingScores: [],
+    currentLevelId: null,
+    currentChallengeDate: null,
+    dailyChallengeDate: '',
+    levelStars: {},
     dailyRewards: DAILY_REWARDS.map(reward => ({ ...reward })),
     lastLoginDate: '',
     currentStreak: 0,
     achievements: INITIAL_ACHIEVEMENTS.map(achievement => ({ ...achievement })),
     totalGamesPlayed: 0,
     canWatchAdToContinue: false,
+    audioSettings: createDefaultSave().audioSettings,
+    settings: createDefaultSave().settings,
+    profiles: [],
   });
 
+  // The latest state for code that runs outside a render. Event subscribers
+  // are registered once, so they read state here rather than from a closure.
+  const gameStateRef = useRef(gameState);
+  gameStateRef.current = gameState;
+
+  // Applies changes to gameStateRef right away as well as to React state, so
+  // several changes made before the next render build on each other
+  const commitState = (changes: Partial<GameState>) => {
+    gameStateRef.current = { ...gameStateRef.current, ...changes };
+    setGameState(prev => ({ ...prev, ...changes }));
+  };
+
+  // The authoritative simulation lives in refs so the fixed-step loop can
+  // advance it several times per frame without waiting for a render; the
+  // previous step is kept for interpolation
+  const simulationRef = useRef<SimulationState>(gameState.simulation);
+  const previousSimulationRef = useRef<SimulationState>(gameState.simulation);
+  const framesRef = useRef<FramePublisher>(createFramePublisher(gameState.simulation));
+
+  // Seeded RNG for the current run and input waiting for the next simulation step
+  const rngRef = useRef<Rng>(createRng(createSeed()));
+  const pendingInputRef = useRef<SimulationInput>({ taps: [], kicks: [] });
+
+  // Fingers down under the gesture controls, by touch id. Each finger is read
+  // on its own, so a second finger doesn't disturb a swipe or charge in progress.
+  const activeTouchesRef = useRef(new Map<number, { start: Vector2; startedAt: number; chargeTimeout: ReturnType<typeof setTimeout> }>());
+  const [isCharging, setIsCharging] = useState(false);
+
+  // Keyboard and gamepad on web. The listeners are attached once, so they
+  // reach the latest render's handler through inputActionRef.
+  const webInputRef = useRef<WebInput | null>(null);
+  const inputActionRef = useRef<(action: InputAction) => void>(() => {});
+
+  // Recording of the current run, and the replay being watched on the replay screen
+  const replayRef = useRef<Replay | null>(null);
+  const playbackRef = useRef<ReplayPlayback | null>(null);
+  const [activeReplay, setActiveReplay] = useState<Replay | null>(null);
+  const [playbackFinished, setPlaybackFinished] = useState(false);
+
+  // Seconds left in the 3-2-1 countdown before a paused game resumes; 0 when not counting
+  const [resumeCountdown, setResumeCountdown] = useState(0);
+
+  // Debug overlay that outlines every hitbox (development builds only)
+  const [showHitboxes, setShowHitboxes] = useState(false);
+
+  // Short message shown over every screen, e.g. when an achievement unlocks
+  const [toast, setToast] = useState<string | null>(null);
+  const toastTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Last saved document; writes before loading has finished are dropped so
+  // they can't overwrite the player's real save with defaults
+  const saveRef = useRef<SaveData>(createDefaultSave());
+  const saveLoadedRef = useRef(false);
+
+  // All coin balance changes go through the wallet (created once the save has loaded)
+  const walletRef = useRef<WalletService | null>(null);
+  const creditedRunCoinsRef = useRef(0);
+  // When the current run was first scored; a revived run is scored again under the same time
+  const runScoredAtRef = useRef<number | null>(null);
+
+  // Score submissions for the online leaderboard wait here until the server
+  // is reachable (created once the save has loaded)
+  const scoreQueueRef = useRef<ScoreQueue | null>(null);
+
+  // The online board being shown; 'offline' when it couldn't be fetched
+  const [onlineLeaderboard, setOnlineLeaderboard] = useState<LeaderboardPage & {
+    status: 'loading' | 'ready' | 'offline';
+  }>({ status: 'loading', entries: [], player: null });
+
+  // Bumped when the shown leaderboard window rolls over, to redraw and refetch it
+  const [windowRollovers, setWindowRollovers] = useState(0);
+  const [friendCodeDraft, setFriendCodeDraft] = useState('');
+  const [friendCodeError, setFriendCodeError] = useState<string | null>(null);
+
+  // Sound effects and music; created on mount so a track can be chosen
+  // before the save (and its volume settings) has loaded
+  const audioRef = useRef<AudioManager | null>(null);
+  const [isAppActive, setIsAppActive] = useState(true);
+  const hapticsRef = useRef<HapticsManager | null>(null);
+
+  // What happens during a run is published here; sound, haptics and anything
+  // else that reacts to the game subscribe instead of living in updatePhysics
+  const eventsRef = useRef(createEventEmitter<EngineEvents>());
+
+  // Settings screen: the name being edited, why it was rejected, and whether
+  // the reset button is waiting for confirmation
+  const [nameDraft, setNameDraft] = useState('');
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [isConfirmingReset, setIsConfirmingReset] = useState(false);
+
+  // Profiles screen: the name being typed, the profile it renames (null when
+  // it names a new one), why it was rejected, and which profile is waiting
+  // for its delete to be confirmed
+  const [profileDraft, setProfileDraft] = useState('');
+  const [renamingProfileId, setRenamingProfileId] = useState<string | null>(null);
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+
+  // Backup & transfer: the code last exported, the code being pasted, the
+  // import waiting for the player to pick merge or replace, why the last
+  // import was rejected, and the backups on this device
+  const [transferCode, setTransferCode] = useState<string | null>(null);
+  const [importDraft, setImportDraft] = useState('');
+  const [pendingImport, setPendingImport] = useState<SaveImport | null>(null);
+  const [transferError, setTransferError] = useState<string | null>(null);
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+
+  const resetSimulation = (simulation: SimulationState) => {
+    simulationRef.current = simulation;
+    previousSimulationRef.current = simulation;
+    pendingInputRef.current = { taps: [], kicks: [] };
+    framesRef.current.publish(simulation);
+  };
+
+  useEffect(() => {
+    const audio = createAudioManager(createDefaultSave().audioSettings);
+    audioRef.current = audio;
+    audio.load().catch(error => console.log('Error loading sounds:', error));
+
+    const events = eventsRef.current;
+    const unsubscribers = [
+      events.on('juggle', () => audio.playEffect('tap')),
+      events.on('coinCollected', ({ bigCoin }) => audio.playEffect(bigCoin ? 'bigCoin' : 'coin')),
+      events.on('obstacleHit', () => audio.playEffect('hit')),
+      events.on('runEnded', ({ isComplete }) => audio.playEffect(isComplete ? 'achievement' : 'gameOver')),
+      events.on('achievementUnlocked', () => audio.playEffect('achievement')),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      audio.unload().catch(error => console.log('Error unloading sounds:', error));
+    };
+  }, []);
+
+  // A light tick per juggle, a double pulse per pickup and a heavy buzz on a crash
+  useEffect(() => {
+    const haptics = createHapticsManager(createDefaultSave().settings.hapticsEnabled);
+    hapticsRef.current = haptics;
+
+    const events = eventsRef.current;
+    const unsubscribers = [
+      events.on('juggle', () => haptics.play('tick')),
+      events.on('coinCollected', () => haptics.play('doublePulse')),
+      events.on('obstacleHit', () => haptics.play('heavy')),
+      events.on('groundHit', () => haptics.play('heavy')),
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, []);
+
+  useEffect(() => {
+    if (Platform.OS !== 'web') return;
+
+    const webInput = createWebInput(action => inputActionRef.current(action));
+    webInputRef.current = webInput;
+    return () => webInput.dispose();
+  }, []);
+
+  // Reading a gamepad takes a callback every frame, so it's only done during a
+  // run; menus and the pause screen are left to the keyboard, mouse and touch
+  useEffect(() => {
+    webInputRef.current?.setGamepadActive(gameState.currentScreen === 'playing');
+  }, [gameState.currentScreen]);
+
   // Load saved data on app start
   useEffect(() => {
     const loadSavedData = async () => {
       try {
-        const [savedHighScore, savedCoins, savedSkins, savedSelectedSkin, savedAdsRemoved, savedLeaderboard, savedPlayerName, savedDailyRewards, savedLastLoginDate, savedCurrentStreak, savedAchievements, savedTotalGamesPlayed] = await Promise.all([
-          AsyncStorage.getItem('juggleJamHighScore'),
-          AsyncStorage.getItem('juggleJamCoins'),
-          AsyncStorage.getItem('juggleJamUnlockedSkins'),
-          AsyncStorage.getItem('juggleJamSelectedSkin'),
-          AsyncStorage.getItem('juggleJamAdsRemoved'),
-          AsyncStorage.getItem('juggleJamLeaderboard'),
-          AsyncStorage.getItem('juggleJamPlayerName'),
-          AsyncStorage.getItem('juggleJamDailyRewards'),
-          AsyncStorage.getItem('juggleJamLastLoginDate'),
-          AsyncStorage.getItem('juggleJamCurrentStreak'),
-          AsyncStorage.getItem('juggleJamAchievements'),
-          AsyncStorage.getItem('juggleJamTotalGamesPlayed'),
-        ]);
-
-        setGameState(prev => ({
-          ...prev,
-          highScore: savedHighScore ? parseInt(savedHighScore, 10) : 0,
-          collectedCoins: savedCoins ? parseInt(savedCoins, 10) : 0,
-          unlockedSkins: savedSkins ? JSON.parse(savedSkins) : ['classic'],
-          selectedSkin: savedSelectedSkin || 'classic',
-          adsRemoved: savedAdsRemoved === 'true',
-          leaderboard: savedLeaderboard ? JSON.parse(savedLeaderboard) : [],
-          playerName: savedPlayerName || 'Player',
-          dailyRewards: savedDailyRewards ? JSON.parse(savedDailyRewards) : DAILY_REWARDS.map(reward => ({ ...reward })),
-          lastLoginDate: savedLastLoginDate || '',
-          currentStreak: savedCurrentStreak ? parseInt(savedCurrentStreak, 10) : 0,
-          achievements: savedAchievements ? JSON.parse(savedAchievements) : INITIAL_ACHIEVEMENTS.map(achievement => ({ ...achievement })),
-          totalGamesPlayed: savedTotalGamesPlayed ? parseInt(savedTotalGamesPlayed, 10) : 0,
-        }));
-
-        // Check daily login rewards after loading data
-        checkDailyLoginReward();
+        const { data, issues } = await loadSave();
+        saveLoadedRef.current = true;
+        activateSave(data);
+        audioRef.current?.setSettings(data.audioSettings);
+        hapticsRef.current?.setEnabled(data.settings.hapticsEnabled);
+
+        if (issues.length > 0) {
+          alert(`Your saved progress needed some attention:\n${issues.join('\n')}`);
+        }
       } catch (error) {
         console.log('Error loading saved data:', error);
       }
@@ -132,229 +376,377 @@ export const SimpleGameEngine: React.FC = () => {
   }, []);
 
   // Physics and game loop
-  const updatePhysics = useCallback(() => {
-    if (gameState.currentScreen !== 'playing') return;
+  const updatePhysics = useCallback((dt: number) => {
+    const previous = simulationRef.current;
+    if (replayRef.current) {
+      replayRef.current = recordStep(replayRef.current, pendingInputRef.current);
+    }
+    const simulation = step(previous, pendingInputRef.current, dt, rngRef.current);
+    pendingInputRef.current = { taps: [], kicks: [] };
+    previousSimulationRef.current = previous;
+    simulationRef.current = simulation;
+
+    // The game over screen is committed first, so subscribers to the run's
+    // end (scoring, revives) already see it
+    if (simulation.isOver && !previous.isOver) {
+      framesRef.current.publish(simulation);
+      commitState({ simulation, currentScreen: 'gameOver' });
+    }
 
-    setGameState(prevState => {
-      const newState = { ...prevState };
+    emitStepEvents(eventsRef.current, previous, simulation);
+    audioRef.current?.setMusicRate(getMusicRate(getSpeedMultiplier(simulation)));
+  }, []);
 
-      // Get current difficulty multipliers
-      const { speedMultiplier, spawnMultiplier } = getDifficultyMultiplier(newState.score);
+  const updateReplay = useCallback(() => {
+    if (!playbackRef.current) return;
 
-      // Apply gravity
-      newState.ball.velocity.y += BASE_CONFIG.gravity;
+    const playback = advancePlayback(playbackRef.current);
+    previousSimulationRef.current = playbackRef.current.simulation;
+    simulationRef.current = playback.simulation;
+    playbackRef.current = playback;
 
-      // Update ball position
-      newState.ball.position.x += newState.ball.velocity.x;
-      newState.ball.position.y += newState.ball.velocity.y;
+    if (playback.finished) {
+      framesRef.current.publish(playback.simulation);
+      setGameState(prevState => ({ ...prevState, simulation: playback.simulation }));
+      setPlaybackFinished(true);
+    }
+  }, []);
 
-      // Apply friction (more aggressive)
-      newState.ball.velocity.x *= 0.95;
-      newState.ball.velocity.y *= 0.99;
+  const renderFrame = useCallback((alpha: number) => {
+    framesRef.current.publish(interpolateSimulation(previousSimulationRef.current, simulationRef.current, alpha));
+  }, []);
 
-      // Boundary checks
-      if (newState.ball.position.x <= BASE_CONFIG.ballRadius) {
-        newState.ball.position.x = BASE_CONFIG.ballRadius;
-        newState.ball.velocity.x = Math.abs(newState.ball.velocity.x) * 0.7;
-      }
-      if (newState.ball.position.x >= SCREEN_WIDTH - BASE_CONFIG.ballRadius) {
-        newState.ball.position.x = SCREEN_WIDTH - BASE_CONFIG.ballRadius;
-        newState.ball.velocity.x = -Math.abs(newState.ball.velocity.x) * 0.7;
-      }
+  // Pause and resume
+  const pauseGame = () => {
+    setResumeCountdown(0);
+    if (gameStateRef.current.currentScreen === 'playing') commitState({ currentScreen: 'paused' });
+  };
 
-      // Ground collision (game over)
-      if (newState.ball.position.y >= SCREEN_HEIGHT - BASE_CONFIG.ballRadius) {
-        newState.currentScreen = 'gameOver';
-      }
+  const resumeGame = () => {
+    setResumeCountdown(3);
+  };
 
-      // Update obstacles
-      newState.obstacles = newState.obstacles
-        .map(obstacle => ({
-          ...obstacle,
-          position: {
-            x: obstacle.position.x + obstacle.velocity.x,
-            y: obstacle.position.y + obstacle.velocity.y,
-          },
-        }))
-        .filter(obstacle =>
-          obstacle.position.x > -100 &&
-          obstacle.position.x < SCREEN_WIDTH + 100 &&
-          obstacle.position.y > -100 &&
-          obstacle.position.y < SCREEN_HEIGHT + 100
-        );
+  useEffect(() => {
+    if (resumeCountdown <= 0) return;
 
-      // Spawn new obstacles with dynamic difficulty
-      if (Math.random() < BASE_CONFIG.spawnRate * spawnMultiplier) {
-        const side = Math.random() < 0.5 ? 'left' : 'right';
-        const obstacleType = ['cone', 'goalpost', 'defender'][Math.floor(Math.random() * 3)] as 'cone' | 'goalpost' | 'defender';
-
-        const newObstacle: Obstacle = {
-          id: Date.now().toString(),
-          position: {
-            x: side === 'left' ? -50 : SCREEN_WIDTH + 50,
-            y: Math.random() * (SCREEN_HEIGHT - 200) + 100,
-          },
-          velocity: {
-            x: side === 'left' ? BASE_CONFIG.obstacleSpeed * speedMultiplier : -BASE_CONFIG.obstacleSpeed * speedMultiplier,
-            y: 0,
-          },
-          type: obstacleType,
-          width: obstacleType === 'cone' ? 30 : obstacleType === 'goalpost' ? 20 : 40,
-          height: obstacleType === 'cone' ? 40 : obstacleType === 'goalpost' ? 80 : 60,
-        };
-
-        newState.obstacles.push(newObstacle);
+    const timeout = setTimeout(() => {
+      if (resumeCountdown === 1 && gameStateRef.current.currentScreen === 'paused') {
+        commitState({ currentScreen: 'playing' });
       }
+      setResumeCountdown(resumeCountdown - 1);
+    }, 1000);
 
-      // Check collisions
-      for (const obstacle of newState.obstacles) {
-        const distance = Math.sqrt(
-          Math.pow(newState.ball.position.x - (obstacle.position.x + obstacle.width / 2), 2) +
-          Math.pow(newState.ball.position.y - (obstacle.position.y + obstacle.height / 2), 2)
-        );
+    return () => clearTimeout(timeout);
+  }, [resumeCountdown]);
 
-        if (distance < BASE_CONFIG.ballRadius + Math.min(obstacle.width, obstacle.height) / 2) {
-          newState.currentScreen = 'gameOver';
-        }
+  // Pause automatically when the app is backgrounded or interrupted
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextAppState => {
+      setIsAppActive(nextAppState === 'active');
+      if (nextAppState !== 'active') {
+        pauseGame();
+      } else {
+        scoreQueueRef.current?.flush(); // the connection may be back
       }
+    });
 
-      // Update score based on time survived
-      newState.score += 1;
-
-      // Update coins
-      newState.coins = newState.coins
-        .map(coin => ({
-          ...coin,
-          position: {
-            x: coin.position.x + coin.velocity.x,
-            y: coin.position.y + coin.velocity.y,
-          },
-        }))
-        .filter(coin =>
-          coin.position.x > -100 &&
-          coin.position.x < SCREEN_WIDTH + 100 &&
-          coin.position.y > -100 &&
-          coin.position.y < SCREEN_HEIGHT + 100
-        );
+    return () => subscription.remove();
+  }, []);
 
-      // Spawn new coins occasionally
-      if (Math.random() < 0.005) { // Lower spawn rate than obstacles
-        const side = Math.random() < 0.5 ? 'left' : 'right';
-        const coinValue = Math.random() < 0.8 ? 1 : 5; // 80% chance for 1 coin, 20% for 5 coins
-
-        const newCoin: Coin = {
-          id: Date.now().toString() + '_coin',
-          position: {
-            x: side === 'left' ? -30 : SCREEN_WIDTH + 30,
-            y: Math.random() * (SCREEN_HEIGHT - 200) + 100,
-          },
-          velocity: {
-            x: side === 'left' ? speedMultiplier * 1.5 : -speedMultiplier * 1.5,
-            y: 0,
-          },
-          radius: 15,
-          value: coinValue,
-        };
-
-        newState.coins.push(newCoin);
-      }
+  // Online boards are fetched whenever one is opened or changed, after sending
+  // anything still queued so the player's latest scores are on it
+  useEffect(() => {
+    const { currentScreen, leaderboardScope, leaderboardBoard, leaderboardCategory, leaderboardWindow, playerId, friendIds } = gameState;
+    if (currentScreen !== 'leaderboard' || leaderboardScope === 'device') return;
+
+    let isCurrent = true;
+    setOnlineLeaderboard({ status: 'loading', entries: [], player: null });
+
+    const fetchBoard = async () => {
+      await scoreQueueRef.current?.flush();
+      if (!leaderboardClient) throw new Error('No leaderboard server is configured');
+
+      return leaderboardClient.fetchTop({
+        difficulty: leaderboardBoard === 'daily' ? DAILY_CHALLENGE_PRESET : leaderboardBoard,
+        challengeDate: leaderboardBoard === 'daily' ? getChallengeDate() : undefined,
+        category: leaderboardCategory,
+        window: leaderboardBoard === 'daily' ? 'allTime' : leaderboardWindow,
+        playerIds: leaderboardScope === 'friends' ? [playerId, ...friendIds] : undefined,
+        limit: LEADERBOARD_SIZE,
+        playerId,
+      });
+    };
 
-      // Check coin collection
-      for (let i = newState.coins.length - 1; i >= 0; i--) {
-        const coin = newState.coins[i];
-        const distance = Math.sqrt(
-          Math.pow(newState.ball.position.x - coin.position.x, 2) +
-          Math.pow(newState.ball.position.y - coin.position.y, 2)
-        );
+    fetchBoard()
+      .then(page => {
+        if (isCurrent) setOnlineLeaderboard({ status: 'ready', ...page });
+      })
+      .catch(error => {
+        console.log('Error loading online leaderboard:', error);
+        if (isCurrent) setOnlineLeaderboard({ status: 'offline', entries: [], player: null });
+      });
 
-        if (distance < BASE_CONFIG.ballRadius + coin.radius) {
-          // Collect the coin
-          newState.collectedCoins += coin.value;
-          newState.coins.splice(i, 1);
-          // Save coins immediately when collected
-          saveCoins(newState.collectedCoins);
-        }
-      }
+    return () => {
+      isCurrent = false;
+    };
+  }, [
+    gameState.currentScreen,
+    gameState.leaderboardScope,
+    gameState.leaderboardBoard,
+    gameState.leaderboardCategory,
+    gameState.leaderboardWindow,
+    gameState.playerId,
+    gameState.friendIds,
+    windowRollovers,
+  ]);
+
+  // Today and this week start over at midnight UTC while the leaderboard is open
+  useEffect(() => {
+    const { currentScreen, leaderboardWindow } = gameState;
+    if (currentScreen !== 'leaderboard' || leaderboardWindow === 'allTime') return;
 
-      return newState;
-    });
-  }, [gameState.currentScreen]);
+    const now = Date.now();
+    const timeout = setTimeout(() => setWindowRollovers(count => count + 1), getWindowEnd(leaderboardWindow, now) - now);
+    return () => clearTimeout(timeout);
+  }, [gameState.currentScreen, gameState.leaderboardWindow, windowRollovers]);
 
-  // Touch handler for ball control
-  const handleTouch = useCallback((touchX: number, touchY: number) => {
-    if (gameState.currentScreen !== 'playing') return;
+  // Game music during runs and replays, menu music everywhere else; silent
+  // while paused or in the background
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const gameScreens = ['playing', 'paused', 'gameOver', 'replay'];
+    const track: MusicTrack = gameScreens.includes(gameState.currentScreen) ? 'game' : 'menu';
+    audio.playMusic(track);
+    audio.setMuted(!isAppActive || gameState.currentScreen === 'paused');
+  }, [gameState.currentScreen, isAppActive]);
+
+  const updateAudioSettings = (changes: Partial<AudioSettings>) => {
+    const audioSettings = { ...gameState.audioSettings, ...changes };
 
-    setGameState(prevState => {
-      const ballPos = prevState.ball.position;
+    setGameState(prev => ({ ...prev, audioSettings }));
+    saveData({ audioSettings });
+    audioRef.current?.setSettings(audioSettings);
+  };
 
-      // Always apply upward force (Flappy Bird style)
-      const upwardForce = -5; // Negative because Y decreases upward
+  const changeVolume = (setting: 'musicVolume' | 'sfxVolume', change: number) => {
+    const volume = Math.round(Math.min(1, Math.max(0, gameState.audioSettings[setting] + change)) * 10) / 10;
+    updateAudioSettings({ [setting]: volume });
+  };
 
-      // Determine horizontal direction based on tap position relative to ball
-      const deltaX = touchX - ballPos.x;
-      const horizontalForce = deltaX > 0 ? 2 : deltaX < 0 ? -2 : 0;
+  // Where a point on the screen is on the current run's field
+  const toFieldPosition = (x: number, y: number): Vector2 => {
+    const fit = getFieldFit(simulationRef.current.config);
+    return { x: (x - fit.left) / fit.scale, y: (y - fit.top) / fit.scale };
+  };
 
-      // Apply forces considering current velocity
-      const newVelX = prevState.ball.velocity.x * 0.7 + horizontalForce;
-      const newVelY = upwardForce; // Always override Y velocity for consistent "flap"
+  // Touch handler for ball control; taps are applied on the next simulation step
+  const handleTouch = useCallback((touchX: number, touchY: number) => {
+    if (gameStateRef.current.currentScreen !== 'playing') return;
 
-      // Cap maximum velocity
-      const maxVelX = 4;
-      const maxVelY = 8;
-      const clampedVelX = Math.max(-maxVelX, Math.min(maxVelX, newVelX));
-      const clampedVelY = Math.max(-maxVelY, Math.min(maxVelY, newVelY));
+    pendingInputRef.current.taps.push({ x: touchX, y: touchY });
+  }, []);
 
-      return {
-        ...prevState,
-        ball: {
-          ...prevState.ball,
-          velocity: { x: clampedVelX, y: clampedVelY },
-        },
-      };
-    });
-  }, [gameState.currentScreen]);
+  const handleKick = useCallback((kick: Kick) => {
+    if (gameStateRef.current.currentScreen !== 'playing') return;
+
+    pendingInputRef.current.kicks.push(kick);
+  }, []);
+
+  // Gesture controls: every finger is tracked from touch-down to lift-off and
+  // then read as a tap, a swipe or a charged power kick. The gesture is never
+  // activated, so the buttons drawn over the game field keep working.
+  const kickGesture = useMemo(() => {
+    const touches = activeTouchesRef.current;
+    const releaseAll = () => {
+      touches.forEach(touch => clearTimeout(touch.chargeTimeout));
+      touches.clear();
+      setIsCharging(false);
+    };
+
+    return Gesture.Manual()
+      .runOnJS(true)
+      .onTouchesDown(event => {
+        event.changedTouches.forEach(touch => {
+          touches.set(touch.id, {
+            start: { x: touch.x, y: touch.y },
+            startedAt: Date.now(),
+            chargeTimeout: setTimeout(() => setIsCharging(true), CHARGE_START_SECONDS * 1000),
+          });
+        });
+      })
+      .onTouchesUp(event => {
+        event.changedTouches.forEach(touch => {
+          const active = touches.get(touch.id);
+          if (!active) return;
+          touches.delete(touch.id);
+          clearTimeout(active.chargeTimeout);
+
+          const result = interpretTouch(active.start, { x: touch.x, y: touch.y }, (Date.now() - active.startedAt) / 1000);
+          if (result.kind === 'tap') {
+            const position = toFieldPosition(result.position.x, result.position.y);
+            handleTouch(position.x, position.y);
+          } else {
+            handleKick(result.kick);
+          }
+        });
+        if (touches.size === 0) setIsCharging(false);
+      })
+      .onTouchesCancelled(releaseAll);
+  }, []);
 
   const handleScreenPress = (evt: any) => {
     const { locationX, locationY } = evt.nativeEvent;
-    handleTouch(locationX, locationY);
+    const position = toFieldPosition(locationX, locationY);
+    handleTouch(position.x, position.y);
   };
 
   // Game loop
   useEffect(() => {
-    const interval = setInterval(() => {
-      updatePhysics();
-    }, 16); // ~60fps
+    const isReplay = gameState.currentScreen === 'replay';
+    if (gameState.currentScreen !== 'playing' && !(isReplay && !playbackFinished)) return;
 
-    return () => clearInterval(interval);
-  }, [updatePhysics]);
+    const loop = createFixedStepLoop(FIXED_TIMESTEP, dt => {
+      if (isReplay) {
+        updateReplay();
+        if (playbackRef.current?.finished) loop.stop();
+      } else {
+        updatePhysics(dt);
+        if (simulationRef.current.isOver) loop.stop();
+      }
+    }, renderFrame);
+
+    loop.start();
+    return () => loop.stop();
+  }, [gameState.currentScreen, playbackFinished, updatePhysics, updateReplay, renderFrame]);
 
   // Save functions
-  const saveData = async (key: string, value: string | number | boolean | string[] | LeaderboardEntry[] | DailyReward[] | Achievement[]) => {
+  // Each save function updates its part of the save document and writes the
+  // whole document. persistData rejects if the write fails; saveData logs it.
+  const persistData = async (changes: Partial<SaveData>) => {
+    if (!saveLoadedRef.current) {
+      throw new Error('Save data has not been loaded yet');
+    }
+
+    const previous = saveRef.current;
+    saveRef.current = { ...previous, ...changes };
+    try {
+      await writeSave(saveRef.current);
+    } catch (error) {
+      // Roll back the fields this write changed so a later write can't persist them
+      const rollback = Object.fromEntries(Object.keys(changes).map(key => [key, previous[key as keyof SaveData]]));
+      saveRef.current = { ...saveRef.current, ...rollback };
+      throw error;
+    }
+  };
+
+  const saveData = async (changes: Partial<SaveData>) => {
+    if (!saveLoadedRef.current) return;
+
+    try {
+      await persistData(changes);
+    } catch (error) {
+      console.log('Error saving game:', error);
+    }
+  };
+
+  const saveHighScores = async (highScores: Record<DifficultyPresetId, number>) => saveData({ highScores });
+  const saveDifficulty = async (difficulty: DifficultyPresetId) => saveData({ difficulty });
+  const saveUnlockedSkins = async (skins: string[]) => saveData({ unlockedSkins: skins });
+  const saveSelectedSkin = async (skin: string) => saveData({ selectedSkin: skin });
+  const saveAdsRemoved = async (removed: boolean) => saveData({ adsRemoved: removed });
+  const savePlayerName = async (name: string) => saveData({ playerName: name });
+  const saveDailyRewards = async (rewards: DailyReward[]) => saveData({ dailyRewards: rewards });
+  const saveLastLoginDate = async (date: string) => saveData({ lastLoginDate: date });
+  const saveCurrentStreak = async (streak: number) => saveData({ currentStreak: streak });
+  const saveAchievements = async (achievements: Achievement[]) => saveData({ achievements });
+  const saveTotalGamesPlayed = async (total: number) => saveData({ totalGamesPlayed: total });
+  const saveDailyChallengeDate = async (date: string) => saveData({ dailyChallengeDate: date });
+  const saveLevelStars = async (levelStars: Record<string, number>) => saveData({ levelStars });
+  const savePowerUpInventory = async (inventory: Record<PowerUpType, number>) => saveData({ powerUpInventory: inventory });
+  const saveSettings = async (settings: PlayerSettings) => saveData({ settings });
+
+  // Writes to one profile wherever it is in the save by then. A wallet or
+  // score queue keeps the profile it was opened for, so writes it still has
+  // queued when another profile is switched to don't land in that one.
+  const persistProfile = (profileId: string, changes: Partial<ProfileData>) =>
+    persistData(
+      profileId === saveRef.current.playerId ? changes : { profiles: updateProfile(saveRef.current, profileId, changes).profiles },
+    );
+
+  const isActiveProfile = (profileId: string) => saveRef.current.playerId === profileId;
+
+  const openWallet = (profileId: string, balance: number, ledger: CoinTransaction[]) =>
+    createWalletService(
+      { balance, ledger },
+      wallet => persistProfile(profileId, { collectedCoins: wallet.balance, coinLedger: wallet.ledger }),
+    );
+
+  // Starts playing a save that was just loaded or switched to another profile:
+  // the wallet and score queue are reopened on its profile, and its daily
+  // login reward is checked
+  const activateSave = (data: SaveData) => {
+    const { version, ...savedState } = data;
+    saveRef.current = data;
+    walletRef.current = openWallet(data.playerId, data.collectedCoins, data.coinLedger);
+    scoreQueueRef.current = openScoreQueue(data.playerId, data.pendingScores);
+    scoreQueueRef.current.flush();
+
+    commitState(savedState);
+    checkDailyLoginReward(data.lastLoginDate, data.currentStreak);
+  };
+
+  const openScoreQueue = (profileId: string, pending: ScoreSubmission[]) =>
+    createScoreQueue(leaderboardClient, pending, async pendingScores => {
+      await persistProfile(profileId, { pendingScores });
+      if (isActiveProfile(profileId)) commitState({ pendingScores });
+    });
+
+  // Sends one of the player's entries to the online leaderboard, or queues it
+  // until the server can be reached
+  const uploadEntry = (entry: LeaderboardEntry, runs: RunScore[] = []) => {
+    scoreQueueRef.current
+      ?.enqueue(toScoreSubmission(entry, gameStateRef.current.playerId, runs))
+      .catch(error => console.log('Error queueing score:', error));
+  };
+
+  const transactCoins = async (request: TransactionRequest): Promise<boolean> => {
+    const wallet = walletRef.current;
+    if (!wallet) return false;
+
     try {
-      const stringValue = typeof value === 'object' ? JSON.stringify(value) : value.toString();
-      await AsyncStorage.setItem(key, stringValue);
+      const { balance, ledger } = await wallet.transact(request);
+      // The profile may have been switched while the transaction was waiting
+      if (walletRef.current === wallet) {
+        setGameState(prev => ({ ...prev, collectedCoins: balance, coinLedger: ledger }));
+      }
+      return true;
     } catch (error) {
-      console.log(`Error saving ${key}:`, error);
+      console.log('Coin transaction failed:', error);
+      return false;
     }
   };
 
-  const saveHighScore = async (score: number) => saveData('juggleJamHighScore', score);
-  const saveCoins = async (coins: number) => saveData('juggleJamCoins', coins);
-  const saveUnlockedSkins = async (skins: string[]) => saveData('juggleJamUnlockedSkins', skins);
-  const saveSelectedSkin = async (skin: string) => saveData('juggleJamSelectedSkin', skin);
-  const saveAdsRemoved = async (removed: boolean) => saveData('juggleJamAdsRemoved', removed);
-  const saveLeaderboard = async (leaderboard: LeaderboardEntry[]) => saveData('juggleJamLeaderboard', leaderboard);
-  const savePlayerName = async (name: string) => saveData('juggleJamPlayerName', name);
-  const saveDailyRewards = async (rewards: DailyReward[]) => saveData('juggleJamDailyRewards', rewards);
-  const saveLastLoginDate = async (date: string) => saveData('juggleJamLastLoginDate', date);
-  const saveCurrentStreak = async (streak: number) => saveData('juggleJamCurrentStreak', streak);
-  const saveAchievements = async (achievements: Achievement[]) => saveData('juggleJamAchievements', achievements);
-  const saveTotalGamesPlayed = async (total: number) => saveData('juggleJamTotalGamesPlayed', total);
-
-  // Daily login reward system
-  const checkDailyLoginReward = () => {
+  // Credit the coins picked up so far this run. A continued run only credits
+  // what it collected since the last credit.
+  const creditRunCoins = () => {
+    const { stats } = simulationRef.current;
+    const amount = stats.coinsCollected - creditedRunCoinsRef.current;
+    if (amount <= 0) return;
+
+    creditedRunCoinsRef.current = stats.coinsCollected;
+    transactCoins({
+      type: 'earn',
+      amount,
+      description: `Collected in a ${Math.floor(stats.duration)}s run`,
+      reference: `run:${replayRef.current?.seed}:${stats.coinsCollected}`,
+    });
+  };
+
+  // Daily login reward system; takes the loaded values since state hasn't updated yet
+  const checkDailyLoginReward = (lastLogin: string, currentStreak: number) => {
     const today = new Date().toDateString();
-    const lastLogin = gameState.lastLoginDate;
 
     if (lastLogin !== today) {
       const yesterday = new Date();
@@ -364,7 +756,7 @@ export const SimpleGameEngine: React.FC = () => {
       let newStreak = 1;
       if (lastLogin === yesterdayString) {
         // Consecutive day
-        newStreak = gameState.currentStreak + 1;
+        newStreak = currentStreak + 1;
       }
 
       // Cap streak at 7 days (weekly cycle)
@@ -395,87 +787,119 @@ export const SimpleGameEngine: React.FC = () => {
     }
   };
 
-  const claimDailyReward = (day: number) => {
+  const claimDailyReward = async (day: number) => {
     const rewardIndex = day - 1;
     if (rewardIndex >= 0 && rewardIndex < gameState.dailyRewards.length) {
       const reward = gameState.dailyRewards[rewardIndex];
       if (!reward.claimed && day <= gameState.currentStreak) {
+        const paid = await transactCoins({
+          type: 'reward',
+          amount: reward.coins,
+          description: `Daily reward: day ${day}`,
+          reference: `daily:${gameState.lastLoginDate}:${day}`,
+        });
+        if (!paid) return;
+
         const updatedRewards = [...gameState.dailyRewards];
         updatedRewards[rewardIndex] = { ...reward, claimed: true };
 
-        setGameState(prev => ({
-          ...prev,
-          dailyRewards: updatedRewards,
-          collectedCoins: prev.collectedCoins + reward.coins,
-        }));
-
+        setGameState(prev => ({ ...prev, dailyRewards: updatedRewards }));
         saveDailyRewards(updatedRewards);
-        saveCoins(gameState.collectedCoins + reward.coins);
       }
     }
   };
 
-  // Achievement system
-  const updateAchievementProgress = (achievementId: string, progress: number) => {
-    setGameState(prev => {
-      const updatedAchievements = prev.achievements.map(achievement => {
-        if (achievement.id === achievementId && !achievement.completed) {
-          const newProgress = Math.max(achievement.progress, progress);
-          const completed = newProgress >= achievement.requirement;
-
-          if (completed && !achievement.completed) {
-            // Award coins for completing achievement
-            const newCoins = prev.collectedCoins + achievement.reward;
-            saveCoins(newCoins);
-            setTimeout(() => {
-              setGameState(prevState => ({
-                ...prevState,
-                collectedCoins: newCoins
-              }));
-            }, 0);
-          }
+  // Achievement system. By default progress is a best value (kept if higher);
+  // cumulative achievements pass 'add' to add it to the running total
+  const updateAchievementProgress = (achievementId: string, progress: number, mode: 'max' | 'add' = 'max') => {
+    const { achievements } = gameStateRef.current;
+    const achievement = achievements.find(item => item.id === achievementId);
+    if (!achievement || achievement.completed) return;
+
+    const newProgress = mode === 'add' ? achievement.progress + progress : Math.max(achievement.progress, progress);
+    const updatedAchievement = { ...achievement, progress: newProgress, completed: newProgress >= achievement.requirement };
+    const updatedAchievements = achievements.map(item => (item.id === achievementId ? updatedAchievement : item));
+
+    commitState({ achievements: updatedAchievements });
+    saveAchievements(updatedAchievements);
+    if (updatedAchievement.completed) {
+      eventsRef.current.emit('achievementUnlocked', { achievement: updatedAchievement });
+    }
+  };
 
-          return {
-            ...achievement,
-            progress: newProgress,
-            completed: completed,
-          };
-        }
-        return achievement;
-      });
 
-      saveAchievements(updatedAchievements);
-      return {
-        ...prev,
-        achievements: updatedAchievements,
-      };
+  // Game control functions
+  // Every kind of run starts here; `mode` says what the run is scored on
+  const beginRun = (
+    config: GameConfig,
+    seed: number,
+    startingPowerUps: PowerUpType[],
+    mode: Pick<GameState, 'currentLevelId' | 'currentChallengeDate' | 'canWatchAdToContinue'>,
+  ) => {
+    // Sensitivity is part of the config so replays play back with the kick they were recorded with
+    const runConfig = { ...config, controlSensitivity: gameState.settings.controlSensitivity };
+    const simulation = createSimulation(runConfig, startingPowerUps);
+    rngRef.current = createRng(seed);
+    replayRef.current = createReplay(seed, runConfig, gameState.selectedSkin, startingPowerUps, Date.now());
+    creditedRunCoinsRef.current = 0;
+    runScoredAtRef.current = null;
+    resetSimulation(simulation);
+
+    commitState({ ...mode, simulation, currentScreen: 'playing' });
+    eventsRef.current.emit('runStarted', { seed, levelId: mode.currentLevelId, challengeDate: mode.currentChallengeDate });
+  };
+
+  const countGamePlayed = () => {
+    const totalGamesPlayed = gameStateRef.current.totalGamesPlayed + 1;
+    commitState({ totalGamesPlayed });
+    saveTotalGamesPlayed(totalGamesPlayed);
+
+    // Update achievements for first game and total games played
+    updateAchievementProgress('first_game', totalGamesPlayed);
+    updateAchievementProgress('play_10_games', totalGamesPlayed);
+  };
+
+  // Passing a level starts it in stage mode, otherwise an endless run on the
+  // selected difficulty starts
+  const startGame = (level?: LevelDefinition) => {
+    // One of each owned starting power-up is used up by every new run
+    const startingPowerUps = POWER_UP_TYPES.filter(type => gameState.powerUpInventory[type] > 0);
+    if (startingPowerUps.length > 0) {
+      const powerUpInventory = { ...gameState.powerUpInventory };
+      startingPowerUps.forEach(type => { powerUpInventory[type] -= 1; });
+      setGameState(prev => ({ ...prev, powerUpInventory }));
+      savePowerUpInventory(powerUpInventory);
+    }
+
+    const config = level
+      ? { ...createConfig(level.preset), level }
+      : createConfig(gameState.difficulty);
+
+    beginRun(config, createSeed(), startingPowerUps, {
+      currentLevelId: level?.id ?? null,
+      currentChallengeDate: null,
+      canWatchAdToContinue: !level, // Enable watch ad for continue for each new endless game
     });
   };
 
-  // Game control functions
-  const startGame = () => {
-    setGameState(prev => {
-      const newTotalGamesPlayed = prev.totalGamesPlayed + 1;
-      saveTotalGamesPlayed(newTotalGamesPlayed);
+  // One scored attempt per day on the shared seed. The attempt is used up as
+  // soon as it starts so quitting can't be used to retry.
+  const startDailyChallenge = () => {
+    const challengeDate = getChallengeDate();
+    if (gameState.dailyChallengeDate === challengeDate) return;
 
-      // Update achievements for first game and total games played
-      updateAchievementProgress('first_game', newTotalGamesPlayed);
-      updateAchievementProgress('play_10_games', newTotalGamesPlayed);
+    setGameState(prev => ({ ...prev, dailyChallengeDate: challengeDate }));
+    saveDailyChallengeDate(challengeDate);
 
-      return {
-        ...prev,
-        ball: {
-          position: { x: SCREEN_WIDTH / 2, y: SCREEN_HEIGHT / 2 },
-          velocity: { x: 0, y: 0 },
-          radius: BASE_CONFIG.ballRadius,
-        },
-        obstacles: [],
-        coins: [],
-        score: 0,
-        currentScreen: 'playing',
-        totalGamesPlayed: newTotalGamesPlayed,
-        canWatchAdToContinue: true, // Enable watch ad for continue for each new game
-      };
+    const config = {
+      ...createConfig(DAILY_CHALLENGE_PRESET),
+      screenWidth: DAILY_CHALLENGE_FIELD.width,
+      screenHeight: DAILY_CHALLENGE_FIELD.height,
+    };
+    beginRun(config, getDailyChallengeSeed(challengeDate), [], {
+      currentLevelId: null,
+      currentChallengeDate: challengeDate,
+      canWatchAdToContinue: false,
     });
   };
 
@@ -483,21 +907,107 @@ export const SimpleGameEngine: React.FC = () => {
     setGameState(prev => ({ ...prev, currentScreen: 'menu' }));
   };
 
+  // Leaving a paused run still banks the coins collected in it
+  const quitRun = () => {
+    creditRunCoins();
+    returnToMenu();
+  };
+
+  const goToCoinHistory = () => {
+    setGameState(prev => ({ ...prev, currentScreen: 'coinHistory' }));
+  };
+
   const goToStore = () => {
     setGameState(prev => ({ ...prev, currentScreen: 'store' }));
   };
 
   const goToLeaderboard = () => {
-    setGameState(prev => ({ ...prev, currentScreen: 'leaderboard' }));
+    setGameState(prev => ({ ...prev, currentScreen: 'leaderboard', leaderboardBoard: prev.difficulty }));
+  };
+
+  const selectDifficulty = (difficulty: DifficultyPresetId) => {
+    setGameState(prev => ({ ...prev, difficulty }));
+    saveDifficulty(difficulty);
+  };
+
+  const goToLevelSelect = () => {
+    setGameState(prev => ({ ...prev, currentScreen: 'levelSelect' }));
+  };
+
+  const goToSettings = () => {
+    setNameDraft(gameState.playerName);
+    setNameError(null);
+    setIsConfirmingReset(false);
+    setTransferCode(null);
+    setImportDraft('');
+    setPendingImport(null);
+    setTransferError(null);
+    refreshBackups();
+    setGameState(prev => ({ ...prev, currentScreen: 'settings' }));
+  };
+
+  const goToProfiles = () => {
+    cancelRenamingProfile();
+    setConfirmingDeleteId(null);
+    setGameState(prev => ({ ...prev, currentScreen: 'profiles' }));
   };
 
   const goToAchievements = () => {
     setGameState(prev => ({ ...prev, currentScreen: 'achievements' }));
   };
 
+  const watchReplay = (replay: Replay) => {
+    const playback = startPlayback(replay);
+    playbackRef.current = playback;
+    resetSimulation(playback.simulation);
+    setActiveReplay(replay);
+    setPlaybackFinished(false);
+    setGameState(prev => ({ ...prev, simulation: playback.simulation, currentScreen: 'replay' }));
+  };
+
   const restartGame = () => {
-    startGame();
+    startGame(getLevel(gameState.currentLevelId));
+  };
+
+  // Keyboard and gamepad actions. A kick is a tap just beside the ball, on
+  // the side being held, so it goes through the same input as a touch.
+  const handleInputAction = (action: InputAction) => {
+    switch (gameState.currentScreen) {
+      case 'playing':
+        if (action === 'kick' || action === 'confirm') {
+          const { position } = simulationRef.current.ball;
+          handleTouch(position.x + (webInputRef.current?.getDirection() ?? 0), position.y);
+        } else if (action === 'pause' || action === 'back') {
+          pauseGame();
+        }
+        return;
+      case 'paused':
+        if (resumeCountdown === 0 && (action === 'pause' || action === 'back' || action === 'confirm')) resumeGame();
+        return;
+    }
+
+    if (action === 'up' || action === 'down') {
+      moveFocus(action === 'up' ? -1 : 1);
+    } else if (action === 'confirm') {
+      if (gameState.currentScreen === 'menu') startGame();
+      if (gameState.currentScreen === 'gameOver') {
+        if (gameState.currentChallengeDate) {
+          returnToMenu();
+        } else {
+          restartGame();
+        }
+      }
+    } else if (action === 'back' && gameState.currentScreen !== 'menu') {
+      if (gameState.currentScreen === 'replay') {
+        goToLeaderboard();
+      } else if (gameState.currentScreen === 'gameOver' && gameState.currentLevelId) {
+        goToLevelSelect();
+      } else {
+        returnToMenu();
+      }
+    }
   };
+  inputActionRef.current = handleInputAction;
 
   const watchAdToContinue = () => {
     // In a real app, this would trigger an ad SDK (e.g., AdMob, Unity Ads)
@@ -505,79 +1015,137 @@ export const SimpleGameEngine: React.FC = () => {
     alert('Ad would play here! In real app, this would integrate with ad networks.');
 
     // Continue the game by resetting ball position and some velocity
+    const simulation = reviveSimulation(simulationRef.current);
+    resetSimulation(simulation);
+    if (replayRef.current) {
+      replayRef.current = recordRevive(replayRef.current);
+    }
+
+    // Resume through the countdown so play doesn't start behind the ad alert
     setGameState(prev => ({
       ...prev,
-      ball: {
-        position: { x: SCREEN_WIDTH / 2, y: SCREEN_HEIGHT / 2 },
-        velocity: { x: 0, y: -3 }, // Give a small upward boost
-        radius: BASE_CONFIG.ballRadius,
-      },
-      currentScreen: 'playing',
+      simulation,
+      currentScreen: 'paused',
       canWatchAdToContinue: false, // Disable for this session
     }));
+    resumeGame();
   };
 
   // Leaderboard functions
-  const submitScore = (finalScore: number, coinsEarned: number) => {
-    const currentTime = Date.now();
-    const playerName = gameState.playerName;
-    const skinUsed = gameState.selectedSkin;
-
-    // Find existing player entry or create new one
-    const existingPlayerIndex = gameState.leaderboard.findIndex(entry => entry.playerName === playerName);
-
-    let updatedLeaderboard = [...gameState.leaderboard];
-
-    if (existingPlayerIndex >= 0) {
-      // Update existing player's best scores
-      const existingEntry = updatedLeaderboard[existingPlayerIndex];
-      const updatedEntry: LeaderboardEntry = {
-        ...existingEntry,
-        bestTime: Math.max(existingEntry.bestTime, finalScore),
-        bestCoins: Math.max(existingEntry.bestCoins, coinsEarned),
-        bestTimeTimestamp: finalScore > existingEntry.bestTime ? currentTime : existingEntry.bestTimeTimestamp,
-        bestCoinsTimestamp: coinsEarned > existingEntry.bestCoins ? currentTime : existingEntry.bestCoinsTimestamp,
-        bestTimeSkin: finalScore > existingEntry.bestTime ? skinUsed : existingEntry.bestTimeSkin,
-        bestCoinsSkin: coinsEarned > existingEntry.bestCoins ? skinUsed : existingEntry.bestCoinsSkin,
-      };
-      updatedLeaderboard[existingPlayerIndex] = updatedEntry;
-    } else {
-      // Create new player entry
-      const newEntry: LeaderboardEntry = {
-        id: Date.now().toString(),
-        playerName,
-        bestTime: finalScore,
-        bestCoins: coinsEarned,
-        bestTimeTimestamp: currentTime,
-        bestCoinsTimestamp: currentTime,
-        bestTimeSkin: skinUsed,
-        bestCoinsSkin: skinUsed,
-      };
-      updatedLeaderboard.push(newEntry);
+  // Daily challenge results pass their date and get one entry per day. A run
+  // that ends again after a revive replaces what was recorded at its first
+  // end: its stats carry on from there, so its bests only go up, and its run
+  // record keeps the same timestamp so it takes the partial one's place.
+  const submitScore = (stats: RunStats, replay?: Replay, challengeDate?: string) => {
+    const { playerId, playerName, selectedSkin, leaderboard, runHistory, difficulty } = gameStateRef.current;
+    const now = runScoredAtRef.current ?? Date.now();
+    runScoredAtRef.current = now;
+    const score = scoreRun(stats, selectedSkin, now);
+    const board = { difficulty: challengeDate ? DAILY_CHALLENGE_PRESET : difficulty, challengeDate };
+
+    // A run no genuine game could produce stays off the leaderboard
+    const implausible = checkRun(score, board.difficulty);
+    if (implausible) {
+      console.log('Run left off the leaderboard:', implausible);
+      return;
     }
 
-    setGameState(prev => ({ ...prev, leaderboard: updatedLeaderboard }));
-    saveLeaderboard(updatedLeaderboard);
+    // Merged into the player's existing entry on this board, if there is one
+    const runEntry = createRunEntry(score, { playerId, playerName, ...board }, replay);
+    const { leaderboard: updatedLeaderboard, entry } = recordRun(leaderboard, runEntry);
+    // Every run is kept (for this week) for the today and this week boards
+    const updatedRunHistory = pruneRunHistory(
+      addRun(runHistory, { ...score, playerName, ...board }, (a, b) => a.timestamp === b.timestamp && a.playerName === b.playerName),
+      Date.now(),
+    );
+
+    commitState({ leaderboard: updatedLeaderboard, runHistory: updatedRunHistory });
+    saveData({ leaderboard: updatedLeaderboard, runHistory: updatedRunHistory });
+    // Bests from an unverified import stay on the device; only the run goes up
+    uploadEntry(entry.isUnverified ? runEntry : entry, [score]);
   };
 
   const switchLeaderboardCategory = (category: LeaderboardCategory) => {
     setGameState(prev => ({ ...prev, leaderboardCategory: category }));
   };
 
+  const switchLeaderboardBoard = (board: LeaderboardBoard) => {
+    setGameState(prev => ({ ...prev, leaderboardBoard: board }));
+  };
+
+  const switchLeaderboardScope = (scope: LeaderboardScope) => {
+    setGameState(prev => ({ ...prev, leaderboardScope: scope }));
+  };
+
+  const switchLeaderboardWindow = (leaderboardWindow: LeaderboardWindow) => {
+    setGameState(prev => ({ ...prev, leaderboardWindow }));
+  };
+
+  const addFriend = async () => {
+    const code = normalizeFriendCode(friendCodeDraft);
+    const reason = validateFriendCode(code, gameState.playerId, gameState.friendIds);
+    setFriendCodeDraft(code);
+    setFriendCodeError(reason);
+    if (reason) return;
+
+    const friendIds = [...gameState.friendIds, code];
+    try {
+      await persistData({ friendIds });
+      commitState({ friendIds });
+      setFriendCodeDraft('');
+    } catch (error) {
+      console.log('Error adding friend:', error);
+      setFriendCodeError('Could not save your friend, please try again');
+    }
+  };
+
+  const removeFriend = (friendId: string) => {
+    const friendIds = gameState.friendIds.filter(id => id !== friendId);
+    commitState({ friendIds });
+    saveData({ friendIds });
+  };
+
   // Store functions
-  const purchaseSkinWithCoins = (skinId: string) => {
+  const purchaseSkinWithCoins = async (skinId: string) => {
     const skin = BALL_SKINS.find(s => s.id === skinId);
     if (skin && gameState.collectedCoins >= skin.coinPrice && !gameState.unlockedSkins.includes(skinId)) {
+      const paid = await transactCoins({ type: 'spend', amount: skin.coinPrice, description: `Bought ${skin.name}` });
+      if (!paid) return;
+
       const newUnlockedSkins = [...gameState.unlockedSkins, skinId];
+      try {
+        await persistData({ unlockedSkins: newUnlockedSkins, selectedSkin: skinId });
+      } catch (error) {
+        // The skin couldn't be saved, so give the coins back
+        console.log('Error saving purchased skin:', error);
+        transactCoins({ type: 'refund', amount: skin.coinPrice, description: `Refund: ${skin.name}` });
+        return;
+      }
+
       setGameState(prev => ({
         ...prev,
-        collectedCoins: prev.collectedCoins - skin.coinPrice,
         unlockedSkins: newUnlockedSkins,
         selectedSkin: skinId,
       }));
-      saveCoins(gameState.collectedCoins - skin.coinPrice);
-      saveUnlockedSkins(newUnlockedSkins);
-      saveSelectedSkin(skinId);
+    }
+  };
+
+  const purchasePowerUp = async (type: PowerUpType) => {
+    const powerUp = POWER_UPS[type];
+    if (gameState.collectedCoins >= powerUp.coinPrice) {
+      const paid = await transactCoins({ type: 'spend', amount: powerUp.coinPrice, description: `Bought ${powerUp.name}` });
+      if (!paid) return;
+
+      const powerUpInventory = { ...gameState.powerUpInventory, [type]: gameState.powerUpInventory[type] + 1 };
+      try {
+        await persistData({ powerUpInventory });
+      } catch (error) {
+        console.log('Error saving purchased power-up:', error);
+        transactCoins({ type: 'refund', amount: powerUp.coinPrice, description: `Refund: ${powerUp.name}` });
+        return;
+      }
+
+      setGameState(prev => ({ ...prev, powerUpInventory }));
     }
   };
 
@@ -603,69 +1171,529 @@ export const SimpleGameEngine: React.FC = () => {
     saveSelectedSkin(skinId);
   };
 
-  // Handle game over and high score
-  useEffect(() => {
-    if (gameState.currentScreen === 'gameOver') {
-      const finalScore = Math.floor(gameState.score / 60);
-      const coinsThisRound = gameState.collectedCoins;
+  const updateSettings = (changes: Partial<PlayerSettings>) => {
+    const settings = { ...gameState.settings, ...changes };
+    setGameState(prev => ({ ...prev, settings }));
+    saveSettings(settings);
+    hapticsRef.current?.setEnabled(settings.hapticsEnabled);
+  };
 
-      // Submit to leaderboard
-      submitScore(finalScore, coinsThisRound);
+  const changeSensitivity = (change: number) => {
+    const controlSensitivity = Math.round(Math.min(1.5, Math.max(0.5, gameState.settings.controlSensitivity + change)) * 10) / 10;
+    updateSettings({ controlSensitivity });
+  };
 
-      // Update high score
-      if (finalScore > gameState.highScore) {
-        setGameState(prev => ({ ...prev, highScore: finalScore }));
-        saveHighScore(finalScore);
-      }
+  // A profile's leaderboard entries are renamed with it, in the same write.
+  // The online boards pick up the new name with the profile's next
+  // submission, which for the active profile is right away.
+  const renameProfileTo = async (profileId: string, name: string) => {
+    const save = renameProfile(saveRef.current, profileId, name);
+    const { playerName, leaderboard, runHistory, profiles } = save;
+    await persistData({ playerName, leaderboard, runHistory, profiles });
+    commitState({ playerName, leaderboard, runHistory, profiles });
+
+    if (profileId === save.playerId) {
+      leaderboard.filter(entry => entry.playerName === name && !entry.isUnverified).forEach(entry => uploadEntry(entry));
+    }
+  };
 
-      // Update achievements
-      updateAchievementProgress('survive_60s', finalScore);
-      updateAchievementProgress('survive_120s', finalScore);
-      updateAchievementProgress('collect_50_coins', coinsThisRound);
-      updateAchievementProgress('collect_100_one_game', coinsThisRound);
-      updateAchievementProgress('collect_3_skins', gameState.unlockedSkins.length);
+  const renamePlayer = async () => {
+    const playerName = normalizePlayerName(nameDraft);
+    const reason = validatePlayerName(playerName, gameState.playerName, getNamesInUse(saveRef.current));
+    setNameDraft(playerName);
+    setNameError(reason);
+    if (reason || playerName === gameState.playerName) return;
+
+    try {
+      await renameProfileTo(gameState.playerId, playerName);
+    } catch (error) {
+      console.log('Error renaming player:', error);
+      setNameError('Could not save your name, please try again');
     }
-  }, [gameState.currentScreen, gameState.score, gameState.highScore]);
-
-  const getObstacleColor = (type: string) => {
-    switch (type) {
-      case 'cone': return '#FF6B35';
-      case 'goalpost': return '#FFD23F';
-      case 'defender': return '#FF4081';
-      default: return '#FF6B35';
+  };
+
+  // Creates a profile from the name being typed and switches to it, or
+  // renames the profile being edited
+  const submitProfileName = async () => {
+    const save = saveRef.current;
+    const name = normalizePlayerName(profileDraft);
+    const currentName = getAllProfiles(save).find(profile => profile.playerId === renamingProfileId)?.playerName ?? '';
+    const reason = validatePlayerName(name, currentName, getNamesInUse(save));
+    setProfileDraft(name);
+    setProfileError(reason);
+    if (reason) return;
+
+    try {
+      if (renamingProfileId) {
+        if (name !== currentName) await renameProfileTo(renamingProfileId, name);
+        setRenamingProfileId(null);
+        setProfileDraft('');
+      } else {
+        const profile = createDefaultProfile(name);
+        const next = switchProfile(addProfile(save, profile), profile.playerId);
+        const { version, ...changes } = next;
+        await persistData(changes);
+        activateSave(next);
+        returnToMenu();
+      }
+    } catch (error) {
+      console.log('Error saving profile:', error);
+      setProfileError('Could not save the profile, please try again');
     }
   };
 
-  const getCurrentSkinEmoji = () => {
-    const skin = BALL_SKINS.find(s => s.id === gameState.selectedSkin);
-    return skin ? skin.emoji : '⚽';
+  const startRenamingProfile = (profileId: string, name: string) => {
+    setRenamingProfileId(profileId);
+    setProfileDraft(name);
+    setProfileError(null);
   };
 
-  // Menu Screen Component
-  const renderMenuScreen = () => (
-    <View style={{ flex: 1, backgroundColor: '#4CAF50', justifyContent: 'center', alignItems: 'center' }}>
-      {/* Coins display */}
-      <View style={{ position: 'absolute', top: 50, left: 20 }}>
-        <Text style={{ fontSize: 18, color: 'white', fontWeight: 'bold' }}>
-          🪙 {gameState.collectedCoins}
-        </Text>
-      </View>
+  const cancelRenamingProfile = () => {
+    setRenamingProfileId(null);
+    setProfileDraft('');
+    setProfileError(null);
+  };
 
-      <Text style={{ fontSize: 48, fontWeight: 'bold', color: 'white', marginBottom: 10, textAlign: 'center' }}>
-        {getCurrentSkinEmoji()} JUGGLE JAM
-      </Text>
-      <Text style={{ fontSize: 16, color: 'white', marginBottom: 40, textAlign: 'center', opacity: 0.8 }}>
-        Soccer Ball Flappy Bird Adventure
-      </Text>
+  const playAsProfile = async (profileId: string) => {
+    const next = switchProfile(saveRef.current, profileId);
+    try {
+      const { version, ...changes } = next;
+      await persistData(changes);
+      activateSave(next);
+      returnToMenu();
+    } catch (error) {
+      console.log('Error switching profile:', error);
+      alert('Could not switch profile, please try again');
+    }
+  };
 
-      {gameState.highScore > 0 && (
-        <Text style={{ fontSize: 20, color: 'white', marginBottom: 30 }}>
-          High Score: {gameState.highScore}s
-        </Text>
-      )}
+  // The first tap asks for confirmation, the second deletes
+  const removeProfile = async (profileId: string) => {
+    if (confirmingDeleteId !== profileId) {
+      setConfirmingDeleteId(profileId);
+      return;
+    }
 
-      <TouchableOpacity
-        onPress={startGame}
+    const { profiles, leaderboard, runHistory } = deleteProfile(saveRef.current, profileId);
+    try {
+      await persistData({ profiles, leaderboard, runHistory });
+      commitState({ profiles, leaderboard, runHistory });
+    } catch (error) {
+      console.log('Error deleting profile:', error);
+      alert('Could not delete the profile, please try again');
+    }
+    setConfirmingDeleteId(null);
+  };
+
+  // Wipes the active profile's coins, unlocks, scores and stats. Its name and
+  // friends are kept, and so is today's daily challenge attempt so a reset
+  // can't buy a retry. Other profiles and the device's settings and purchases
+  // aren't touched. Scores already sent online stay there, and queued ones still go.
+  const resetProgress = async () => {
+    const { leaderboard, runHistory, ...profile } = saveRef.current;
+    const progress = {
+      ...getProfileData(createDefaultSave()),
+      playerName: profile.playerName,
+      playerId: profile.playerId,
+      friendIds: profile.friendIds,
+      pendingScores: profile.pendingScores,
+      dailyChallengeDate: profile.dailyChallengeDate,
+      leaderboard: leaderboard.filter(entry => entry.playerName !== profile.playerName),
+      runHistory: runHistory.filter(run => run.playerName !== profile.playerName),
+    };
+
+    try {
+      await persistData(progress);
+      walletRef.current = openWallet(progress.playerId, progress.collectedCoins, progress.coinLedger);
+      commitState(progress);
+    } catch (error) {
+      console.log('Error resetting progress:', error);
+      alert('Could not reset your progress, please try again');
+    }
+    setIsConfirmingReset(false);
+  };
+
+  const refreshBackups = () => {
+    backupProvider
+      ?.list()
+      .then(setBackups)
+      .catch(error => console.log('Error listing backups:', error));
+  };
+
+  // Shows the save as a code to copy, and offers it to the share sheet on
+  // devices that have one
+  const shareSaveCode = async () => {
+    try {
+      const code = await encodeSaveCode(saveRef.current, Date.now());
+      setTransferCode(code);
+      if (Platform.OS !== 'web') {
+        Share.share({ message: code }).catch(error => console.log('Error sharing save:', error));
+      }
+    } catch (error) {
+      console.log('Error exporting save:', error);
+      setTransferError('Could not export the save, please try again');
+    }
+  };
+
+  const backUpSave = async () => {
+    if (!backupProvider) return;
+
+    try {
+      const now = Date.now();
+      await backupProvider.write(serializeSaveExport(await createSaveExport(saveRef.current, now)), now);
+      refreshBackups();
+      showToast('💾 Backup saved');
+    } catch (error) {
+      console.log('Error saving backup:', error);
+      setTransferError('Could not save the backup, please try again');
+    }
+  };
+
+  // A backup file the player keeps outside the app, e.g. to restore after reinstalling
+  const shareBackup = async () => {
+    try {
+      const now = Date.now();
+      await shareBackupFile(serializeSaveExport(await createSaveExport(saveRef.current, now)), now);
+    } catch (error) {
+      console.log('Error sharing backup:', error);
+      setTransferError('Could not share the backup, please try again');
+    }
+  };
+
+  const openBackupFile = async () => {
+    try {
+      const contents = await pickBackupFile();
+      if (contents !== null) await previewImport(contents);
+    } catch (error) {
+      console.log('Error opening backup file:', error);
+      setTransferError('Could not open that file, please try again');
+    }
+  };
+
+  // Checks a pasted code or a backup's contents and holds it until the
+  // player chooses how to bring it in
+  const previewImport = async (text: string) => {
+    try {
+      setPendingImport(await readSaveImport(text));
+      setTransferError(null);
+    } catch (error) {
+      setPendingImport(null);
+      setTransferError(error instanceof Error ? error.message : 'Could not read the save');
+    }
+  };
+
+  const restoreBackup = async (id: string) => {
+    if (!backupProvider) return;
+
+    try {
+      await previewImport(await backupProvider.read(id));
+    } catch (error) {
+      console.log('Error reading backup:', error);
+      setTransferError('Could not read the backup, please try again');
+    }
+  };
+
+  // The save being replaced or merged into is backed up first, so a bad
+  // import can be rolled back from the backup list
+  const applyImport = async (mode: ImportMode) => {
+    if (!pendingImport) return;
+
+    const now = Date.now();
+    const next = applySaveImport(saveRef.current, pendingImport.data, mode, now);
+    try {
+      await backupProvider?.write(serializeSaveExport(await createSaveExport(saveRef.current, now)), now);
+      const { version, ...changes } = next;
+      await persistData(changes);
+      activateSave(next);
+      audioRef.current?.setSettings(next.audioSettings);
+      hapticsRef.current?.setEnabled(next.settings.hapticsEnabled);
+      setNameDraft(next.playerName);
+      setImportDraft('');
+      setPendingImport(null);
+      refreshBackups();
+      showToast(mode === 'replace' ? '📥 Save restored' : '📥 Save merged');
+    } catch (error) {
+      console.log('Error importing save:', error);
+      setTransferError('Could not import the save, please try again');
+    }
+  };
+
+  // Stage mode: keep the best star rating and pay out each star the first time it's earned
+  const finishLevel = (level: LevelDefinition, stats: RunStats, isComplete: boolean) => {
+    const stars = getLevelStars(level, stats, isComplete);
+    const previousStars = gameStateRef.current.levelStars[level.id] ?? 0;
+    if (stars <= previousStars) return;
+
+    const levelStars = { ...gameStateRef.current.levelStars, [level.id]: stars };
+    commitState({ levelStars });
+    saveLevelStars(levelStars);
+
+    for (let star = previousStars + 1; star <= stars; star++) {
+      transactCoins({
+        type: 'reward',
+        amount: LEVEL_STAR_REWARD,
+        description: `${level.name}: star ${star}`,
+        reference: `level:${level.id}:star:${star}`,
+      });
+    }
+  };
+
+  // Banks the coins and records the result of a finished run. Levels have
+  // star ratings instead of scores, and the daily challenge has its own board.
+  // A revived run ends twice, so everything here is safe to repeat: coins and
+  // rewards are paid once, the score replaces the partial one, and high
+  // scores and achievements only keep the best.
+  const finishRun = ({ stats, isComplete }: EngineEvents['runEnded']) => {
+    const { currentLevelId, currentChallengeDate: challengeDate, currentStreak, difficulty, highScores } = gameStateRef.current;
+    const finalScore = Math.floor(stats.duration);
+    const replay = replayRef.current ?? undefined;
+
+    creditRunCoins();
+
+    const level = getLevel(currentLevelId);
+    if (level) {
+      finishLevel(level, stats, isComplete);
+    } else if (challengeDate) {
+      submitScore(stats, replay, challengeDate);
+      transactCoins({
+        type: 'reward',
+        amount: getDailyChallengeReward(currentStreak),
+        description: `Daily challenge ${challengeDate}`,
+        reference: `dailyChallenge:${challengeDate}`,
+      });
+    } else {
+      submitScore(stats, replay);
+
+      // Update the high score for the preset that was played
+      if (finalScore > highScores[difficulty]) {
+        const updatedHighScores = { ...highScores, [difficulty]: finalScore };
+        commitState({ highScores: updatedHighScores });
+        saveHighScores(updatedHighScores);
+      }
+    }
+
+    // Update achievements
+    updateAchievementProgress('survive_60s', finalScore);
+    updateAchievementProgress('survive_120s', finalScore);
+    updateAchievementProgress('collect_100_one_game', stats.coinsCollected);
+    updateAchievementProgress('collect_3_skins', gameStateRef.current.unlockedSkins.length);
+  };
+
+  const showToast = (message: string) => {
+    if (toastTimeoutRef.current) clearTimeout(toastTimeoutRef.current);
+    setToast(message);
+    toastTimeoutRef.current = setTimeout(() => setToast(null), TOAST_DURATION_MS);
+  };
+
+  // Persistence, achievements and the leaderboard follow the game through
+  // its events; nothing here runs inside a state updater
+  useEffect(() => {
+    const events = eventsRef.current;
+    const unsubscribers = [
+      events.on('runStarted', countGamePlayed),
+      // Coins reach the wallet when the run ends; lifetime progress counts them right away
+      events.on('coinCollected', ({ coins }) => updateAchievementProgress('collect_50_coins', coins, 'add')),
+      events.on('runEnded', finishRun),
+      // The reference makes sure an achievement's reward is only ever paid once
+      events.on('achievementUnlocked', ({ achievement }) => transactCoins({
+        type: 'reward',
+        amount: achievement.reward,
+        description: `Achievement: ${achievement.title}`,
+        reference: `achievement:${achievement.id}`,
+      })),
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, []);
+
+  useEffect(() => {
+    const events = eventsRef.current;
+    const unsubscribers = [
+      events.on('achievementUnlocked', ({ achievement }) => showToast(`🏆 ${achievement.title} · 🪙 ${achievement.reward}`)),
+      events.on('nearMiss', () => showToast('😅 Near miss!')),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      if (toastTimeoutRef.current) clearTimeout(toastTimeoutRef.current);
+    };
+  }, []);
+
+  const getSkinEmoji = (skinId: string) => {
+    const skin = BALL_SKINS.find(s => s.id === skinId);
+    return skin ? skin.emoji : '⚽';
+  };
+
+  const getCurrentSkinEmoji = () => getSkinEmoji(gameState.selectedSkin);
+
+  // Obstacles are drawn in the same shape as their hitbox; cones use the
+  // border trick to render a triangle
+  const getObstacleShapeStyle = (obstacle: Obstacle) => {
+    const { color } = OBSTACLE_BEHAVIOURS[obstacle.type];
+
+    if (obstacle.type === 'cone') {
+      return {
+        width: 0,
+        height: 0,
+        borderLeftWidth: obstacle.width / 2,
+        borderRightWidth: obstacle.width / 2,
+        borderBottomWidth: obstacle.height,
+        borderLeftColor: 'transparent',
+        borderRightColor: 'transparent',
+        borderBottomColor: color,
+      };
+    }
+
+    return {
+      width: obstacle.width,
+      height: obstacle.height,
+      backgroundColor: color,
+      borderRadius: 5,
+    };
+  };
+
+  const renderHitbox = (hitbox: Hitbox, key: string) => {
+    const outlineColor = '#00E5FF';
+
+    switch (hitbox.kind) {
+      case 'circle':
+        return (
+          <View
+            key={key}
+            pointerEvents="none"
+            style={{
+              position: 'absolute',
+              left: hitbox.center.x - hitbox.radius,
+              top: hitbox.center.y - hitbox.radius,
+              width: hitbox.radius * 2,
+              height: hitbox.radius * 2,
+              borderRadius: hitbox.radius,
+              borderWidth: 1,
+              borderColor: outlineColor,
+            }}
+          />
+        );
+      case 'rect':
+        return (
+          <View
+            key={key}
+            pointerEvents="none"
+            style={{
+              position: 'absolute',
+              left: hitbox.min.x,
+              top: hitbox.min.y,
+              width: hitbox.max.x - hitbox.min.x,
+              height: hitbox.max.y - hitbox.min.y,
+              borderWidth: 1,
+              borderColor: outlineColor,
+            }}
+          />
+        );
+      case 'polygon':
+        // One rotated 1px line per edge
+        return (
+          <View key={key} pointerEvents="none" style={{ position: 'absolute', left: 0, top: 0 }}>
+            {hitbox.points.map((from, i) => {
+              const to = hitbox.points[(i + 1) % hitbox.points.length];
+              const length = Math.hypot(to.x - from.x, to.y - from.y);
+
+              return (
+                <View
+                  key={i}
+                  style={{
+                    position: 'absolute',
+                    left: (from.x + to.x) / 2 - length / 2,
+                    top: (from.y + to.y) / 2 - 0.5,
+                    width: length,
+                    height: 1,
+                    backgroundColor: outlineColor,
+                    transform: [{ rotate: `${Math.atan2(to.y - from.y, to.x - from.x)}rad` }],
+                  }}
+                />
+              );
+            })}
+          </View>
+        );
+    }
+  };
+
+  const hasPlayedDailyChallenge = gameState.dailyChallengeDate === getChallengeDate();
+
+  // The HUD reads from the left; left-handed players get it mirrored so the
+  // score sits away from the thumb that's tapping
+  const getHudSideStyle = (side: 'start' | 'end') =>
+    (side === 'start') === gameState.settings.leftHanded ? { right: 20, alignItems: 'flex-end' as const } : { left: 20 };
+
+  // Menu Screen Component
+  const renderMenuScreen = () => (
+    <View style={{ flex: 1, backgroundColor: '#4CAF50', justifyContent: 'center', alignItems: 'center' }}>
+      {/* Coins display */}
+      <View style={{ position: 'absolute', top: 50, left: 20 }}>
+        <Text style={{ fontSize: 18, color: 'white', fontWeight: 'bold' }}>
+          🪙 {gameState.collectedCoins}
+        </Text>
+      </View>
+
+      <TouchableOpacity
+        onPress={goToSettings}
+        style={{ position: 'absolute', top: 45, right: 20, backgroundColor: 'rgba(255,255,255,0.2)', width: 44, height: 44, borderRadius: 22, justifyContent: 'center', alignItems: 'center' }}
+      >
+        <Text style={{ fontSize: 20 }}>⚙️</Text>
+      </TouchableOpacity>
+
+      {/* Profile picker */}
+      <TouchableOpacity
+        onPress={goToProfiles}
+        style={{ backgroundColor: 'rgba(255,255,255,0.2)', paddingHorizontal: 15, paddingVertical: 8, borderRadius: 20, marginBottom: 20 }}
+      >
+        <Text style={{ fontSize: 16, fontWeight: 'bold', color: 'white' }}>
+          👤 {gameState.playerName} {gameState.profiles.length > 0 ? '· Switch' : '· Profiles'}
+        </Text>
+      </TouchableOpacity>
+
+      <Text style={{ fontSize: 48, fontWeight: 'bold', color: 'white', marginBottom: 10, textAlign: 'center' }}>
+        {getCurrentSkinEmoji()} JUGGLE JAM
+      </Text>
+      <Text style={{ fontSize: 16, color: 'white', marginBottom: 40, textAlign: 'center', opacity: 0.8 }}>
+        Soccer Ball Flappy Bird Adventure
+      </Text>
+
+      {/* Difficulty presets */}
+      <View style={{ flexDirection: 'row', gap: 10, marginBottom: 10 }}>
+        {DIFFICULTY_PRESET_IDS.map(id => {
+          const preset = DIFFICULTY_PRESETS[id];
+          const isSelected = gameState.difficulty === id;
+
+          return (
+            <TouchableOpacity
+              key={id}
+              onPress={() => selectDifficulty(id)}
+              style={{
+                backgroundColor: isSelected ? 'white' : 'rgba(255,255,255,0.2)',
+                paddingHorizontal: 15,
+                paddingVertical: 8,
+                borderRadius: 20,
+              }}
+            >
+              <Text style={{ fontSize: 14, fontWeight: 'bold', color: isSelected ? '#4CAF50' : 'white' }}>
+                {preset.emoji} {preset.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <Text style={{ fontSize: 14, color: 'white', marginBottom: 20, opacity: 0.8, textAlign: 'center' }}>
+        {DIFFICULTY_PRESETS[gameState.difficulty].description}
+      </Text>
+
+      {gameState.highScores[gameState.difficulty] > 0 && (
+        <Text style={{ fontSize: 20, color: 'white', marginBottom: 30 }}>
+          High Score: {gameState.highScores[gameState.difficulty]}s
+        </Text>
+      )}
+
+      <TouchableOpacity
+        onPress={() => startGame()}
         style={{
           backgroundColor: 'white',
           paddingHorizontal: 40,
@@ -683,6 +1711,49 @@ export const SimpleGameEngine: React.FC = () => {
         </Text>
       </TouchableOpacity>
 
+      {Platform.OS === 'web' && (
+        <Text style={{ fontSize: 12, color: 'white', opacity: 0.7, marginTop: -10, marginBottom: 20, textAlign: 'center' }}>
+          ⌨️ 🎮 Enter to start · Space to kick · ← → to aim · P to pause · ↑ ↓ to move between buttons
+        </Text>
+      )}
+
+      <TouchableOpacity
+        onPress={goToLevelSelect}
+        style={{
+          backgroundColor: 'rgba(255,255,255,0.2)',
+          paddingHorizontal: 30,
+          paddingVertical: 12,
+          borderRadius: 25,
+          marginBottom: 20,
+        }}
+      >
+        <Text style={{ fontSize: 18, fontWeight: 'bold', color: 'white' }}>
+          🗺️ STAGES
+        </Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        onPress={startDailyChallenge}
+        disabled={hasPlayedDailyChallenge}
+        style={{
+          backgroundColor: hasPlayedDailyChallenge ? 'rgba(255,255,255,0.1)' : '#2196F3',
+          paddingHorizontal: 30,
+          paddingVertical: 12,
+          borderRadius: 25,
+          marginBottom: 20,
+          alignItems: 'center',
+        }}
+      >
+        <Text style={{ fontSize: 18, fontWeight: 'bold', color: 'white' }}>
+          📅 DAILY CHALLENGE
+        </Text>
+        <Text style={{ fontSize: 12, color: 'rgba(255,255,255,0.8)', marginTop: 3 }}>
+          {hasPlayedDailyChallenge
+            ? 'Played today, come back tomorrow'
+            : `One attempt, same course for everyone • 🪙 ${getDailyChallengeReward(gameState.currentStreak)}`}
+        </Text>
+      </TouchableOpacity>
+
       <View style={{ flexDirection: 'row', gap: 10, marginBottom: 20, flexWrap: 'wrap', justifyContent: 'center' }}>
         <TouchableOpacity
           onPress={goToStore}
@@ -779,81 +1850,161 @@ export const SimpleGameEngine: React.FC = () => {
   );
 
   // Game Over Screen Component
-  const renderGameOverScreen = () => (
-    <View style={{
-      position: 'absolute',
-      top: 0,
-      left: 0,
-      right: 0,
-      bottom: 0,
-      backgroundColor: 'rgba(0,0,0,0.8)',
-      justifyContent: 'center',
-      alignItems: 'center',
-    }}>
-      <Text style={{ fontSize: 36, fontWeight: 'bold', color: 'white', marginBottom: 20 }}>
-        Game Over!
-      </Text>
-      <Text style={{ fontSize: 24, color: 'white', marginBottom: 10 }}>
-        Score: {Math.floor(gameState.score / 60)}s
-      </Text>
-      {Math.floor(gameState.score / 60) === gameState.highScore && gameState.highScore > 0 && (
-        <Text style={{ fontSize: 18, color: '#FFD700', marginBottom: 20 }}>
-          🏆 NEW HIGH SCORE! 🏆
-        </Text>
-      )}
-      <Text style={{ fontSize: 16, color: 'white', marginBottom: 30 }}>
-        High Score: {gameState.highScore}s
-      </Text>
+  const renderGameOverScreen = () => {
+    const { stats, isComplete } = gameState.simulation;
+    const highScore = gameState.highScores[gameState.difficulty];
+    const level = getLevel(gameState.currentLevelId);
+    const levelIndex = LEVELS.findIndex(item => item.id === level?.id);
+    const nextLevel = isComplete ? LEVELS[levelIndex + 1] : undefined;
+    const challengeDate = gameState.currentChallengeDate;
+    const statRows = [
+      { label: '⭐ Points', value: `${getPoints(stats)}` },
+      { label: '🔥 Best combo', value: `${stats.bestCombo}` },
+      { label: '🪙 Coins collected', value: `${stats.coinsCollected}` },
+      { label: '💰 5-coin pickups', value: `${stats.bigCoinsCollected}` },
+      { label: '😅 Near misses', value: `${stats.nearMisses}` },
+      { label: '⚽ Juggles', value: `${stats.taps}` },
+      { label: '⏱️ Duration', value: `${stats.duration.toFixed(1)}s` },
+    ];
 
-      {/* Watch Ad to Continue Button */}
-      {gameState.canWatchAdToContinue && (
-        <TouchableOpacity
-          onPress={watchAdToContinue}
-          style={{
-            backgroundColor: '#FF6B35',
-            paddingHorizontal: 30,
-            paddingVertical: 15,
-            borderRadius: 25,
-            marginBottom: 15,
-          }}
-        >
-          <Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold' }}>
-            📺 Watch Ad to Continue
-          </Text>
-        </TouchableOpacity>
-      )}
+    return (
+      <View style={{
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.8)',
+        justifyContent: 'center',
+        alignItems: 'center',
+      }}>
+        {level ? (
+          <>
+            <Text style={{ fontSize: 36, fontWeight: 'bold', color: 'white', marginBottom: 10 }}>
+              {isComplete ? 'Stage Clear!' : 'Stage Failed'}
+            </Text>
+            <Text style={{ fontSize: 18, color: 'white', marginBottom: 10 }}>
+              {level.name}: {describeGoal(level.goal)}
+            </Text>
+            {renderStars(getLevelStars(level, stats, isComplete), 40)}
+            <Text style={{ fontSize: 16, color: 'white', marginTop: 10, marginBottom: 20 }}>
+              Best: {gameState.levelStars[level.id] ?? 0}/3 stars
+            </Text>
+          </>
+        ) : challengeDate ? (
+          <>
+            <Text style={{ fontSize: 36, fontWeight: 'bold', color: 'white', marginBottom: 10 }}>
+              Daily Challenge
+            </Text>
+            <Text style={{ fontSize: 16, color: 'rgba(255,255,255,0.8)', marginBottom: 10 }}>
+              📅 {challengeDate}
+            </Text>
+            <Text style={{ fontSize: 24, color: 'white', marginBottom: 10 }}>
+              Score: {Math.floor(stats.duration)}s
+            </Text>
+            <Text style={{ fontSize: 18, color: '#FFD700', marginBottom: 20 }}>
+              +🪙 {getDailyChallengeReward(gameState.currentStreak)} challenge bonus
+            </Text>
+          </>
+        ) : (
+          <>
+            <Text style={{ fontSize: 36, fontWeight: 'bold', color: 'white', marginBottom: 20 }}>
+              Game Over!
+            </Text>
+            <Text style={{ fontSize: 24, color: 'white', marginBottom: 10 }}>
+              Score: {Math.floor(stats.duration)}s
+            </Text>
+            {Math.floor(stats.duration) === highScore && highScore > 0 && (
+              <Text style={{ fontSize: 18, color: '#FFD700', marginBottom: 20 }}>
+                🏆 NEW HIGH SCORE! 🏆
+              </Text>
+            )}
+            <Text style={{ fontSize: 16, color: 'white', marginBottom: 20 }}>
+              High Score: {highScore}s ({DIFFICULTY_PRESETS[gameState.difficulty].name})
+            </Text>
+          </>
+        )}
+
+        {/* Run stats */}
+        <View style={{ backgroundColor: 'rgba(255,255,255,0.1)', borderRadius: 15, padding: 15, marginBottom: 30, minWidth: 240 }}>
+          {statRows.map(row => (
+            <View key={row.label} style={{ flexDirection: 'row', justifyContent: 'space-between', marginBottom: 5 }}>
+              <Text style={{ color: 'rgba(255,255,255,0.8)', fontSize: 14 }}>{row.label}</Text>
+              <Text style={{ color: 'white', fontSize: 14, fontWeight: 'bold' }}>{row.value}</Text>
+            </View>
+          ))}
+        </View>
 
-      <View style={{ flexDirection: 'row', gap: 20 }}>
-        <TouchableOpacity
-          onPress={restartGame}
-          style={{
-            backgroundColor: '#4CAF50',
-            paddingHorizontal: 30,
-            paddingVertical: 15,
-            borderRadius: 25,
-          }}
-        >
-          <Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold' }}>
-            Play Again
-          </Text>
-        </TouchableOpacity>
+        {/* Watch Ad to Continue Button */}
+        {gameState.canWatchAdToContinue && (
+          <TouchableOpacity
+            onPress={watchAdToContinue}
+            style={{
+              backgroundColor: '#FF6B35',
+              paddingHorizontal: 30,
+              paddingVertical: 15,
+              borderRadius: 25,
+              marginBottom: 15,
+            }}
+          >
+            <Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold' }}>
+              📺 Watch Ad to Continue
+            </Text>
+          </TouchableOpacity>
+        )}
 
-        <TouchableOpacity
-          onPress={returnToMenu}
-          style={{
-            backgroundColor: '#666',
-            paddingHorizontal: 30,
-            paddingVertical: 15,
-            borderRadius: 25,
-          }}
-        >
-          <Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold' }}>
-            Menu
-          </Text>
-        </TouchableOpacity>
+        {nextLevel && (
+          <TouchableOpacity
+            onPress={() => startGame(nextLevel)}
+            style={{
+              backgroundColor: '#FFD700',
+              paddingHorizontal: 30,
+              paddingVertical: 15,
+              borderRadius: 25,
+              marginBottom: 15,
+            }}
+          >
+            <Text style={{ color: '#333', fontSize: 18, fontWeight: 'bold' }}>
+              Next Stage: {nextLevel.name}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        <View style={{ flexDirection: 'row', gap: 20 }}>
+          {/* The daily challenge only has one attempt */}
+          {!challengeDate && (
+            <TouchableOpacity
+              onPress={restartGame}
+              style={{
+                backgroundColor: '#4CAF50',
+                paddingHorizontal: 30,
+                paddingVertical: 15,
+                borderRadius: 25,
+              }}
+            >
+              <Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold' }}>
+                {level ? 'Retry' : 'Play Again'}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity
+            onPress={level ? goToLevelSelect : returnToMenu}
+            style={{
+              backgroundColor: '#666',
+              paddingHorizontal: 30,
+              paddingVertical: 15,
+              borderRadius: 25,
+            }}
+          >
+            <Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold' }}>
+              {level ? 'Stages' : 'Menu'}
+            </Text>
+          </TouchableOpacity>
+        </View>
       </View>
-    </View>
-  );
+    );
+  };
 
   // Store Screen Component
   const renderStoreScreen = () => (
@@ -874,6 +2025,13 @@ export const SimpleGameEngine: React.FC = () => {
         </View>
       </View>
 
+      <TouchableOpacity
+        onPress={goToCoinHistory}
+        style={{ alignSelf: 'center', backgroundColor: 'rgba(255,255,255,0.2)', paddingHorizontal: 20, paddingVertical: 10, borderRadius: 20, marginBottom: 20 }}
+      >
+        <Text style={{ color: 'white', fontSize: 14, fontWeight: 'bold' }}>📜 Coin History</Text>
+      </TouchableOpacity>
+
       <ScrollView style={{ flex: 1, paddingHorizontal: 20 }}>
         <Text style={{ fontSize: 18, color: 'white', fontWeight: 'bold', marginBottom: 15, textAlign: 'center' }}>
           Ball Skins
@@ -963,160 +2121,1003 @@ export const SimpleGameEngine: React.FC = () => {
           );
         })}
 
+        <Text style={{ fontSize: 18, color: 'white', fontWeight: 'bold', marginTop: 10, marginBottom: 5, textAlign: 'center' }}>
+          Starting Power-Ups
+        </Text>
+        <Text style={{ fontSize: 14, color: 'rgba(255,255,255,0.8)', marginBottom: 15, textAlign: 'center' }}>
+          One of each owned power-up is active when your next game starts
+        </Text>
+
+        {POWER_UP_TYPES.map((type) => {
+          const powerUp = POWER_UPS[type];
+          const owned = gameState.powerUpInventory[type];
+          const canAfford = gameState.collectedCoins >= powerUp.coinPrice;
+
+          return (
+            <View
+              key={type}
+              style={{
+                backgroundColor: 'rgba(255,255,255,0.1)',
+                marginBottom: 15,
+                borderRadius: 15,
+                padding: 15,
+              }}
+            >
+              <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+                <View style={{ flexDirection: 'row', alignItems: 'center', flex: 1 }}>
+                  <Text style={{ fontSize: 40, marginRight: 15 }}>{powerUp.emoji}</Text>
+                  <View style={{ flex: 1 }}>
+                    <Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold' }}>{powerUp.name}</Text>
+                    <Text style={{ color: 'rgba(255,255,255,0.8)', fontSize: 13 }}>
+                      {powerUp.description} for {powerUp.duration}s
+                    </Text>
+                    {owned > 0 && <Text style={{ color: '#90EE90', fontSize: 14 }}>Owned: {owned}</Text>}
+                  </View>
+                </View>
+
+                <TouchableOpacity
+                  onPress={() => purchasePowerUp(type)}
+                  disabled={!canAfford}
+                  style={{
+                    backgroundColor: canAfford ? '#FFD700' : '#666',
+                    paddingHorizontal: 15,
+                    paddingVertical: 8,
+                    borderRadius: 20,
+                  }}
+                >
+                  <Text style={{ color: canAfford ? '#333' : '#ccc', fontWeight: 'bold' }}>
+                    🪙 {powerUp.coinPrice}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          );
+        })}
+
+        <View style={{ height: 50 }} />
+      </ScrollView>
+    </View>
+  );
+
+  // Coin History Screen Component
+  const renderCoinHistoryScreen = () => (
+    <View style={{ flex: 1, backgroundColor: '#4CAF50' }}>
+      {/* Header */}
+      <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingTop: 50, paddingHorizontal: 20, marginBottom: 20 }}>
+        <TouchableOpacity
+          onPress={goToStore}
+          style={{ backgroundColor: 'rgba(255,255,255,0.2)', padding: 10, borderRadius: 20 }}
+        >
+          <Text style={{ color: 'white', fontSize: 16 }}>← Back</Text>
+        </TouchableOpacity>
+
+        <Text style={{ fontSize: 24, fontWeight: 'bold', color: 'white' }}>📜 HISTORY</Text>
+
+        <View style={{ flexDirection: 'row', alignItems: 'center', backgroundColor: 'rgba(255,255,255,0.2)', paddingHorizontal: 12, paddingVertical: 8, borderRadius: 20 }}>
+          <Text style={{ color: 'white', fontSize: 16, fontWeight: 'bold' }}>🪙 {gameState.collectedCoins}</Text>
+        </View>
+      </View>
+
+      <ScrollView style={{ flex: 1, paddingHorizontal: 20 }}>
+        {gameState.coinLedger.length === 0 ? (
+          <Text style={{ fontSize: 18, color: 'white', textAlign: 'center', opacity: 0.7, marginTop: 100 }}>
+            No transactions yet!{'\n'}Collect coins in a game to get started.
+          </Text>
+        ) : (
+          [...gameState.coinLedger].reverse().map((transaction) => {
+            const signedAmount = getSignedAmount(transaction);
+
+            return (
+              <View
+                key={transaction.id}
+                style={{
+                  backgroundColor: 'rgba(255,255,255,0.1)',
+                  marginBottom: 10,
+                  borderRadius: 15,
+                  padding: 15,
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                }}
+              >
+                <Text style={{ fontSize: 24, marginRight: 15 }}>{TRANSACTION_ICONS[transaction.type]}</Text>
+                <View style={{ flex: 1 }}>
+                  <Text style={{ color: 'white', fontSize: 16, fontWeight: 'bold' }}>{transaction.description}</Text>
+                  <Text style={{ color: 'rgba(255,255,255,0.7)', fontSize: 12, marginTop: 3 }}>
+                    {new Date(transaction.timestamp).toLocaleString()}
+                  </Text>
+                </View>
+                <View style={{ alignItems: 'flex-end' }}>
+                  <Text style={{ color: signedAmount > 0 ? '#C8FFC8' : '#FFB3B3', fontSize: 18, fontWeight: 'bold' }}>
+                    {signedAmount > 0 ? '+' : ''}{signedAmount}
+                  </Text>
+                  <Text style={{ color: 'rgba(255,255,255,0.7)', fontSize: 12 }}>
+                    🪙 {transaction.balanceAfter}
+                  </Text>
+                </View>
+              </View>
+            );
+          })
+        )}
+
+        <View style={{ height: 50 }} />
+      </ScrollView>
+    </View>
+  );
+
+  // Leaderboard Screen Component
+  const renderLeaderboardScreen = () => {
+    // Sort leaderboard based on current category
+    const today = getChallengeDate();
+    const board = gameState.leaderboardBoard;
+    const isOnBoard = (entry: Pick<LeaderboardEntry, 'difficulty' | 'challengeDate'>) =>
+      board === 'daily' ? entry.challengeDate === today : !entry.challengeDate && entry.difficulty === board;
+
+    // The player's earlier daily challenge results, newest first
+    const dailyHistory = gameState.leaderboard
+      .filter(entry => entry.playerName === gameState.playerName && entry.challengeDate && entry.challengeDate !== today)
+      .sort((a, b) => (b.challengeDate ?? '').localeCompare(a.challengeDate ?? ''));
+
+    const category = LEADERBOARD_CATEGORIES[gameState.leaderboardCategory];
+    const scope = gameState.leaderboardScope;
+    const isOnline = scope !== 'device';
+    const isOwnEntry = (entry: LeaderboardEntry) =>
+      isOnline ? entry.playerId === gameState.playerId : entry.playerName === gameState.playerName;
+
+    // The daily challenge board already covers a single day, so it has no windows
+    const shownWindow = board === 'daily' ? 'allTime' : gameState.leaderboardWindow;
+    const now = Date.now();
+
+    // This device's entries in a window: the stored bests for all time,
+    // otherwise rebuilt from the runs inside the window
+    const getDeviceEntries = (forWindow: LeaderboardWindow) =>
+      forWindow === 'allTime'
+        ? gameState.leaderboard.filter(isOnBoard)
+        : getWindowEntries(gameState.runHistory.filter(isOnBoard), getWindowStart(forWindow, now));
+    const getPersonalBest = (forWindow: LeaderboardWindow) => {
+      const entry = getDeviceEntries(forWindow).find(entry => entry.playerName === gameState.playerName);
+      return entry ? category.formatScore(category.getBest(entry).score) : '–';
+    };
+
+    // Online, the player's entry is merged with the one on this device so
+    // scores still waiting to be sent show up (with their replays) right away
+    const deviceEntries = getDeviceEntries(shownWindow);
+    const localEntry = deviceEntries.find(entry => entry.playerName === gameState.playerName);
+    const onlineEntry = onlineLeaderboard.player?.entry ?? onlineLeaderboard.entries.find(isOwnEntry);
+    const ownEntry = localEntry && onlineEntry
+      ? { ...mergeBests(localEntry, onlineEntry), playerId: gameState.playerId, playerName: gameState.playerName }
+      : onlineEntry ?? (localEntry && { ...localEntry, playerId: gameState.playerId });
+    const entries = !isOnline
+      ? deviceEntries
+      : onlineLeaderboard.status === 'ready'
+        ? [...onlineLeaderboard.entries.filter(entry => !isOwnEntry(entry)), ...(ownEntry ? [ownEntry] : [])]
+        : [];
+
+    const rankedEntries = entries.sort((a, b) =>
+      category.getBest(b).score - category.getBest(a).score
+    );
+    const sortedLeaderboard = rankedEntries.slice(0, LEADERBOARD_SIZE);
+
+    // Players outside the top list get their own row pinned below it. Online
+    // only the top list is fetched, so the server supplies the rank.
+    const rankInList = getRank(rankedEntries, isOwnEntry);
+    const playerRank = isOnline && (rankInList === null || rankInList > LEADERBOARD_SIZE)
+      ? onlineLeaderboard.player?.rank ?? null
+      : rankInList;
+    const pinnedEntry = rankInList !== null && rankInList > LEADERBOARD_SIZE ? rankedEntries[rankInList - 1] : null;
+
+    const emptyMessage =
+      isOnline && onlineLeaderboard.status === 'loading' ? 'Loading scores...'
+      : isOnline && onlineLeaderboard.status === 'offline' ? "Can't reach the online leaderboard.\nYour scores are kept and sent once you're back online."
+      : scope === 'friends' ? 'No scores yet!\nAdd friends with their friend code and play a game.'
+      : 'No scores yet!\nPlay a game to get on the leaderboard.';
+
+    const renderRow = (entry: LeaderboardEntry, rank: number | null) => {
+      const isPlayerScore = isOwnEntry(entry);
+      const { score, skin, timestamp, replay } = category.getBest(entry);
+      const skinEmoji = BALL_SKINS.find(s => s.id === skin)?.emoji || '⚽';
+      const timeAgo = new Date(timestamp).toLocaleDateString();
+      const medalColor = rank !== null ? ['#FFD700', '#C0C0C0', '#CD7F32'][rank - 1] : undefined;
+
+      return (
+        <View
+          key={entry.id}
+          style={{
+            backgroundColor: isPlayerScore ? 'rgba(255,215,0,0.3)' : 'rgba(255,255,255,0.1)',
+            marginBottom: 12,
+            borderRadius: 15,
+            padding: 15,
+            borderWidth: isPlayerScore ? 2 : 0,
+            borderColor: '#FFD700',
+          }}
+        >
+          <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center', flex: 1 }}>
+              <View style={{
+                width: 35,
+                height: 35,
+                borderRadius: 17.5,
+                backgroundColor: medalColor ?? '#666',
+                justifyContent: 'center',
+                alignItems: 'center',
+                marginRight: 15,
+              }}>
+                <Text style={{
+                  color: medalColor ? '#333' : 'white',
+                  fontWeight: 'bold',
+                  fontSize: rank !== null && rank >= 100 ? 12 : 16,
+                }}>
+                  {rank ?? '–'}
+                </Text>
+              </View>
+
+              <View style={{ flex: 1 }}>
+                <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 3 }}>
+                  <Text style={{ fontSize: 18, fontWeight: 'bold', color: 'white', marginRight: 8 }}>
+                    {entry.playerName}
+                  </Text>
+                  <Text style={{ fontSize: 16 }}>{skinEmoji}</Text>
+                  {isPlayerScore && (
+                    <Text style={{ fontSize: 12, color: '#FFD700', marginLeft: 8, fontWeight: 'bold' }}>
+                      (YOU)
+                    </Text>
+                  )}
+                </View>
+                <Text style={{ fontSize: 14, color: 'rgba(255,255,255,0.7)' }}>
+                  {timeAgo} • {category.describeEntry(entry)}
+                </Text>
+              </View>
+            </View>
+
+            <View style={{ alignItems: 'flex-end' }}>
+              <Text style={{ fontSize: 20, fontWeight: 'bold', color: 'white' }}>
+                {category.formatScore(score)}
+              </Text>
+              {replay && canPlayReplay(replay) && (
+                <TouchableOpacity
+                  onPress={() => watchReplay(replay)}
+                  style={{ backgroundColor: 'rgba(255,255,255,0.2)', paddingHorizontal: 10, paddingVertical: 4, borderRadius: 12, marginTop: 5 }}
+                >
+                  <Text style={{ color: 'white', fontSize: 12, fontWeight: 'bold' }}>▶️ Replay</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        </View>
+      );
+    };
+
+    return (
+      <View style={{ flex: 1, backgroundColor: '#4CAF50' }}>
+        {/* Header */}
+        <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingTop: 50, paddingHorizontal: 20, marginBottom: 20 }}>
+          <TouchableOpacity
+            onPress={returnToMenu}
+            style={{ backgroundColor: 'rgba(255,255,255,0.2)', padding: 10, borderRadius: 20 }}
+          >
+            <Text style={{ color: 'white', fontSize: 16 }}>← Back</Text>
+          </TouchableOpacity>
+
+          <Text style={{ fontSize: 24, fontWeight: 'bold', color: 'white' }}>🏆 LEADERBOARD</Text>
+
+          <View style={{ width: 60 }} />
+        </View>
+
+        {/* Scopes */}
+        <View style={{ flexDirection: 'row', marginHorizontal: 20, marginBottom: 10, backgroundColor: 'rgba(255,255,255,0.1)', borderRadius: 25, padding: 4 }}>
+          {LEADERBOARD_SCOPES.map(({ id, label }) => {
+            const isSelected = scope === id;
+
+            return (
+              <TouchableOpacity
+                key={id}
+                onPress={() => switchLeaderboardScope(id)}
+                style={{
+                  flex: 1,
+                  backgroundColor: isSelected ? 'white' : 'transparent',
+                  paddingVertical: 10,
+                  borderRadius: 20,
+                  alignItems: 'center',
+                }}
+              >
+                <Text style={{ color: isSelected ? '#4CAF50' : 'white', fontWeight: 'bold', fontSize: 14 }}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* Boards */}
+        <View style={{ flexDirection: 'row', justifyContent: 'center', flexWrap: 'wrap', gap: 8, marginHorizontal: 20, marginBottom: 10 }}>
+          {LEADERBOARD_BOARDS.map(({ id, label }) => {
+            const isSelected = board === id;
+
+            return (
+              <TouchableOpacity
+                key={id}
+                onPress={() => switchLeaderboardBoard(id)}
+                style={{
+                  backgroundColor: isSelected ? 'white' : 'rgba(255,255,255,0.2)',
+                  paddingHorizontal: 12,
+                  paddingVertical: 8,
+                  borderRadius: 20,
+                }}
+              >
+                <Text style={{ fontSize: 14, fontWeight: 'bold', color: isSelected ? '#4CAF50' : 'white' }}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* Windows, each with the player's personal best in it */}
+        {board !== 'daily' && (
+          <View style={{ flexDirection: 'row', gap: 8, marginHorizontal: 20, marginBottom: 10 }}>
+            {LEADERBOARD_WINDOWS.map(({ id, label }) => {
+              const isSelected = shownWindow === id;
+
+              return (
+                <TouchableOpacity
+                  key={id}
+                  onPress={() => switchLeaderboardWindow(id)}
+                  style={{
+                    flex: 1,
+                    backgroundColor: isSelected ? 'white' : 'rgba(255,255,255,0.2)',
+                    paddingVertical: 6,
+                    borderRadius: 15,
+                    alignItems: 'center',
+                  }}
+                >
+                  <Text style={{ fontSize: 14, fontWeight: 'bold', color: isSelected ? '#4CAF50' : 'white' }}>
+                    {label}
+                  </Text>
+                  <Text style={{ fontSize: 11, color: isSelected ? '#4CAF50' : 'rgba(255,255,255,0.7)' }}>
+                    Best: {getPersonalBest(id)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+
+        {/* Category Tabs */}
+        <View style={{ flexDirection: 'row', marginHorizontal: 20, marginBottom: 20, backgroundColor: 'rgba(255,255,255,0.1)', borderRadius: 25, padding: 4 }}>
+          {LEADERBOARD_CATEGORY_IDS.map(id => {
+            const isSelected = gameState.leaderboardCategory === id;
+
+            return (
+              <TouchableOpacity
+                key={id}
+                onPress={() => switchLeaderboardCategory(id)}
+                style={{
+                  flex: 1,
+                  backgroundColor: isSelected ? 'white' : 'transparent',
+                  paddingVertical: 12,
+                  borderRadius: 20,
+                  alignItems: 'center',
+                }}
+              >
+                <Text style={{
+                  color: isSelected ? '#4CAF50' : 'white',
+                  fontWeight: 'bold',
+                  fontSize: 16,
+                }}>
+                  {LEADERBOARD_CATEGORIES[id].label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <ScrollView style={{ flex: 1, paddingHorizontal: 20 }}>
+          {/* Friend codes */}
+          {scope === 'friends' && (
+            <View style={{ backgroundColor: 'rgba(255,255,255,0.1)', borderRadius: 15, padding: 15, marginBottom: 15 }}>
+              <Text style={{ color: 'white', fontSize: 14, marginBottom: 10 }}>
+                Your friend code: <Text style={{ fontWeight: 'bold', letterSpacing: 2 }}>{gameState.playerId}</Text>
+              </Text>
+              <View style={{ flexDirection: 'row', gap: 10 }}>
+                <TextInput
+                  value={friendCodeDraft}
+                  onChangeText={text => {
+                    setFriendCodeDraft(text);
+                    setFriendCodeError(null);
+                  }}
+                  onSubmitEditing={addFriend}
+                  placeholder="Friend's code"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  returnKeyType="done"
+                  style={{ flex: 1, backgroundColor: 'white', borderRadius: 10, paddingHorizontal: 12, paddingVertical: 8, fontSize: 16 }}
+                />
+                <TouchableOpacity
+                  onPress={addFriend}
+                  disabled={friendCodeDraft.length === 0}
+                  style={{
+                    backgroundColor: '#FFD700',
+                    paddingHorizontal: 15,
+                    justifyContent: 'center',
+                    borderRadius: 10,
+                    opacity: friendCodeDraft.length === 0 ? 0.5 : 1,
+                  }}
+                >
+                  <Text style={{ color: '#333', fontSize: 16, fontWeight: 'bold' }}>Add</Text>
+                </TouchableOpacity>
+              </View>
+              {friendCodeError && (
+                <Text style={{ color: '#FFCDD2', fontSize: 12, marginTop: 8 }}>{friendCodeError}</Text>
+              )}
+              {gameState.friendIds.length > 0 && (
+                <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 10 }}>
+                  {gameState.friendIds.map(friendId => (
+                    <TouchableOpacity
+                      key={friendId}
+                      onPress={() => removeFriend(friendId)}
+                      style={{ backgroundColor: 'rgba(255,255,255,0.2)', paddingHorizontal: 10, paddingVertical: 4, borderRadius: 12 }}
+                    >
+                      <Text style={{ color: 'white', fontSize: 12 }}>{friendId} ✕</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </View>
+          )}
+
+          {isOnline && gameState.pendingScores.length > 0 && (
+            <Text style={{ color: 'rgba(255,255,255,0.7)', fontSize: 12, textAlign: 'center', marginBottom: 10 }}>
+              ⏳ {gameState.pendingScores.length} {gameState.pendingScores.length === 1 ? 'board' : 'boards'} waiting to upload
+            </Text>
+          )}
+
+          {sortedLeaderboard.length === 0 ? (
+            <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', marginTop: 100 }}>
+              <Text style={{ fontSize: 18, color: 'white', textAlign: 'center', opacity: 0.7 }}>
+                {emptyMessage}
+              </Text>
+            </View>
+          ) : (
+            sortedLeaderboard.map((entry, index) => renderRow(entry, index + 1))
+          )}
+
+          {/* Daily challenge history */}
+          {board === 'daily' && dailyHistory.length > 0 && (
+            <View style={{ marginTop: 20 }}>
+              <Text style={{ fontSize: 18, fontWeight: 'bold', color: 'white', marginBottom: 10 }}>
+                Your Past Challenges
+              </Text>
+              {dailyHistory.map(entry => (
+                <View
+                  key={entry.id}
+                  style={{ flexDirection: 'row', justifyContent: 'space-between', backgroundColor: 'rgba(255,255,255,0.1)', borderRadius: 10, padding: 12, marginBottom: 8 }}
+                >
+                  <Text style={{ color: 'white', fontSize: 14 }}>📅 {entry.challengeDate}</Text>
+                  <Text style={{ color: 'white', fontSize: 14, fontWeight: 'bold' }}>
+                    {entry.bestPoints} pts • {entry.bestTime}s • {entry.bestCoins} 🪙
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          <View style={{ height: pinnedEntry ? 20 : 100 }} />
+        </ScrollView>
+
+        {/* Your position, when it's outside the top list */}
+        {pinnedEntry && (
+          <View style={{ paddingHorizontal: 20, paddingTop: 10, paddingBottom: 30, borderTopWidth: 1, borderColor: 'rgba(255,255,255,0.3)' }}>
+            {renderRow(pinnedEntry, playerRank)}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderStars = (stars: number, fontSize: number) => (
+    <Text style={{ fontSize, color: '#FFD700' }}>
+      {[1, 2, 3].map(star => (star <= stars ? '★' : '☆')).join('')}
+    </Text>
+  );
+
+  // Level Select Screen Component
+  const renderLevelSelectScreen = () => (
+    <View style={{ flex: 1, backgroundColor: '#4CAF50' }}>
+      {/* Header */}
+      <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingTop: 50, paddingHorizontal: 20, marginBottom: 20 }}>
+        <TouchableOpacity
+          onPress={returnToMenu}
+          style={{ backgroundColor: 'rgba(255,255,255,0.2)', padding: 10, borderRadius: 20 }}
+        >
+          <Text style={{ color: 'white', fontSize: 16 }}>← Back</Text>
+        </TouchableOpacity>
+
+        <Text style={{ fontSize: 24, fontWeight: 'bold', color: 'white' }}>🗺️ STAGES</Text>
+
+        <View style={{ flexDirection: 'row', alignItems: 'center', backgroundColor: 'rgba(255,255,255,0.2)', paddingHorizontal: 12, paddingVertical: 8, borderRadius: 20 }}>
+          <Text style={{ color: 'white', fontSize: 16, fontWeight: 'bold' }}>🪙 {gameState.collectedCoins}</Text>
+        </View>
+      </View>
+
+      <Text style={{ fontSize: 14, color: 'rgba(255,255,255,0.8)', marginBottom: 15, marginHorizontal: 20, textAlign: 'center' }}>
+        Earn a star to unlock the next stage. Every new star pays 🪙 {LEVEL_STAR_REWARD}.
+      </Text>
+
+      <ScrollView style={{ flex: 1, paddingHorizontal: 20 }}>
+        {LEVELS.map((level, index) => {
+          const isUnlocked = isLevelUnlocked(index, gameState.levelStars);
+          const stars = gameState.levelStars[level.id] ?? 0;
+          const preset = DIFFICULTY_PRESETS[level.preset];
+
+          return (
+            <TouchableOpacity
+              key={level.id}
+              onPress={() => startGame(level)}
+              disabled={!isUnlocked}
+              style={{
+                backgroundColor: stars > 0 ? 'rgba(76,175,80,0.3)' : 'rgba(255,255,255,0.1)',
+                marginBottom: 15,
+                borderRadius: 15,
+                padding: 15,
+                opacity: isUnlocked ? 1 : 0.5,
+              }}
+            >
+              <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+                <View style={{ flex: 1 }}>
+                  <Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold' }}>
+                    {index + 1}. {level.name}
+                  </Text>
+                  <Text style={{ color: 'rgba(255,255,255,0.8)', fontSize: 14, marginTop: 3 }}>
+                    {describeGoal(level.goal)} · {preset.emoji} {preset.name}
+                  </Text>
+                  <Text style={{ color: 'rgba(255,255,255,0.6)', fontSize: 12, marginTop: 3 }}>
+                    ★★ {level.starCoins[0]} coins · ★★★ {level.starCoins[1]} coins
+                  </Text>
+                </View>
+                {isUnlocked ? renderStars(stars, 22) : <Text style={{ fontSize: 22 }}>🔒</Text>}
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+
+        <View style={{ height: 50 }} />
+      </ScrollView>
+    </View>
+  );
+
+  const renderToggle = (label: string, value: boolean, onChange: (value: boolean) => void, hint?: string) => (
+    <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 15 }}>
+      <View style={{ flex: 1, marginRight: 10 }}>
+        <Text style={{ color: 'white', fontSize: 16 }}>{label}</Text>
+        {hint && <Text style={{ color: 'rgba(255,255,255,0.6)', fontSize: 12, marginTop: 2 }}>{hint}</Text>}
+      </View>
+      <Switch
+        value={value}
+        onValueChange={onChange}
+        trackColor={{ false: 'rgba(255,255,255,0.3)', true: '#FFD700' }}
+        thumbColor="white"
+      />
+    </View>
+  );
+
+  const renderSettingsSection = (title: string, children: React.ReactNode) => (
+    <View style={{ backgroundColor: 'rgba(255,255,255,0.1)', borderRadius: 15, padding: 15, marginBottom: 15 }}>
+      <Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold', marginBottom: 15 }}>{title}</Text>
+      {children}
+    </View>
+  );
+
+  // Profiles Screen Component
+  const renderProfilesScreen = () => (
+    <View style={{ flex: 1, backgroundColor: '#4CAF50' }}>
+      {/* Header */}
+      <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingTop: 50, paddingHorizontal: 20, marginBottom: 20 }}>
+        <TouchableOpacity
+          onPress={returnToMenu}
+          style={{ backgroundColor: 'rgba(255,255,255,0.2)', padding: 10, borderRadius: 20 }}
+        >
+          <Text style={{ color: 'white', fontSize: 16 }}>← Back</Text>
+        </TouchableOpacity>
+
+        <Text style={{ fontSize: 24, fontWeight: 'bold', color: 'white' }}>👥 PROFILES</Text>
+
+        <View style={{ width: 60 }} />
+      </View>
+
+      <ScrollView style={{ flex: 1, paddingHorizontal: 20 }} keyboardShouldPersistTaps="handled">
+        {renderSettingsSection(renamingProfileId ? '✏️ Rename profile' : '➕ New profile', (
+          <>
+            <View style={{ flexDirection: 'row', gap: 10 }}>
+              <TextInput
+                value={profileDraft}
+                onChangeText={text => {
+                  setProfileDraft(text);
+                  setProfileError(null);
+                }}
+                onSubmitEditing={submitProfileName}
+                placeholder="Player name"
+                maxLength={MAX_PLAYER_NAME_LENGTH}
+                autoCorrect={false}
+                returnKeyType="done"
+                style={{ flex: 1, backgroundColor: 'white', borderRadius: 10, paddingHorizontal: 12, paddingVertical: 8, fontSize: 16 }}
+              />
+              <TouchableOpacity
+                onPress={submitProfileName}
+                disabled={profileDraft.length === 0}
+                style={{
+                  backgroundColor: '#FFD700',
+                  paddingHorizontal: 15,
+                  justifyContent: 'center',
+                  borderRadius: 10,
+                  opacity: profileDraft.length === 0 ? 0.5 : 1,
+                }}
+              >
+                <Text style={{ color: '#333', fontSize: 16, fontWeight: 'bold' }}>{renamingProfileId ? 'Save' : 'Create'}</Text>
+              </TouchableOpacity>
+              {renamingProfileId && (
+                <TouchableOpacity
+                  onPress={cancelRenamingProfile}
+                  style={{ backgroundColor: '#666', paddingHorizontal: 15, justifyContent: 'center', borderRadius: 10 }}
+                >
+                  <Text style={{ color: 'white', fontSize: 16, fontWeight: 'bold' }}>Cancel</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            <Text style={{ color: profileError ? '#FFCDD2' : 'rgba(255,255,255,0.6)', fontSize: 12, marginTop: 8 }}>
+              {profileError ?? (renamingProfileId
+                ? 'Their scores on the leaderboard move to the new name'
+                : 'Every profile has its own coins, skins, achievements and streak')}
+            </Text>
+          </>
+        ))}
+
+        {getAllProfiles(gameState).map(profile => {
+          const isActive = profile.playerId === gameState.playerId;
+          const isConfirmingDelete = confirmingDeleteId === profile.playerId;
+
+          return (
+            <View
+              key={profile.playerId}
+              style={{
+                backgroundColor: isActive ? 'rgba(255,215,0,0.3)' : 'rgba(255,255,255,0.1)',
+                borderRadius: 15,
+                padding: 15,
+                marginBottom: 12,
+                borderWidth: isActive ? 2 : 0,
+                borderColor: '#FFD700',
+              }}
+            >
+              <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 10 }}>
+                <Text style={{ fontSize: 18, fontWeight: 'bold', color: 'white', flex: 1 }}>
+                  {getSkinEmoji(profile.selectedSkin)} {profile.playerName}
+                </Text>
+                {isActive && (
+                  <Text style={{ fontSize: 12, color: '#FFD700', fontWeight: 'bold' }}>PLAYING</Text>
+                )}
+              </View>
+              <Text style={{ fontSize: 14, color: 'rgba(255,255,255,0.7)', marginBottom: 10 }}>
+                🪙 {profile.collectedCoins} • 🎮 {profile.totalGamesPlayed} games • 🔥 {profile.currentStreak} day streak
+              </Text>
+
+              <View style={{ flexDirection: 'row', gap: 10 }}>
+                {!isActive && (
+                  <TouchableOpacity
+                    onPress={() => playAsProfile(profile.playerId)}
+                    style={{ flex: 1, backgroundColor: 'white', paddingVertical: 8, borderRadius: 20, alignItems: 'center' }}
+                  >
+                    <Text style={{ color: '#4CAF50', fontSize: 14, fontWeight: 'bold' }}>▶️ Play</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  onPress={() => startRenamingProfile(profile.playerId, profile.playerName)}
+                  style={{ flex: 1, backgroundColor: 'rgba(255,255,255,0.2)', paddingVertical: 8, borderRadius: 20, alignItems: 'center' }}
+                >
+                  <Text style={{ color: 'white', fontSize: 14, fontWeight: 'bold' }}>✏️ Rename</Text>
+                </TouchableOpacity>
+                {!isActive && (
+                  <TouchableOpacity
+                    onPress={() => removeProfile(profile.playerId)}
+                    style={{
+                      flex: 1,
+                      backgroundColor: isConfirmingDelete ? '#F44336' : 'rgba(244,67,54,0.5)',
+                      paddingVertical: 8,
+                      borderRadius: 20,
+                      alignItems: 'center',
+                    }}
+                  >
+                    <Text style={{ color: 'white', fontSize: 14, fontWeight: 'bold' }}>
+                      {isConfirmingDelete ? 'Tap to confirm' : '🗑️ Delete'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          );
+        })}
+
+        <Text style={{ color: 'rgba(255,255,255,0.6)', fontSize: 12, textAlign: 'center', marginBottom: 15 }}>
+          Deleting a profile removes its progress and its scores on this device's leaderboard
+        </Text>
+
         <View style={{ height: 50 }} />
       </ScrollView>
     </View>
   );
 
-  // Leaderboard Screen Component
-  const renderLeaderboardScreen = () => {
-    // Sort leaderboard based on current category
-    const sortedLeaderboard = [...gameState.leaderboard].sort((a, b) => {
-      if (gameState.leaderboardCategory === 'time') {
-        return b.bestTime - a.bestTime;
-      } else {
-        return b.bestCoins - a.bestCoins;
-      }
-    }).slice(0, 10); // Top 10
-
-    return (
-      <View style={{ flex: 1, backgroundColor: '#4CAF50' }}>
-        {/* Header */}
-        <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingTop: 50, paddingHorizontal: 20, marginBottom: 20 }}>
-          <TouchableOpacity
-            onPress={returnToMenu}
-            style={{ backgroundColor: 'rgba(255,255,255,0.2)', padding: 10, borderRadius: 20 }}
-          >
-            <Text style={{ color: 'white', fontSize: 16 }}>← Back</Text>
-          </TouchableOpacity>
+  // Settings Screen Component
+  const renderSettingsScreen = () => (
+    <View style={{ flex: 1, backgroundColor: '#4CAF50' }}>
+      {/* Header */}
+      <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingTop: 50, paddingHorizontal: 20, marginBottom: 20 }}>
+        <TouchableOpacity
+          onPress={returnToMenu}
+          style={{ backgroundColor: 'rgba(255,255,255,0.2)', padding: 10, borderRadius: 20 }}
+        >
+          <Text style={{ color: 'white', fontSize: 16 }}>← Back</Text>
+        </TouchableOpacity>
 
-          <Text style={{ fontSize: 24, fontWeight: 'bold', color: 'white' }}>🏆 LEADERBOARD</Text>
+        <Text style={{ fontSize: 24, fontWeight: 'bold', color: 'white' }}>⚙️ SETTINGS</Text>
 
-          <View style={{ width: 60 }} />
+        <View style={{ flexDirection: 'row', alignItems: 'center', backgroundColor: 'rgba(255,255,255,0.2)', paddingHorizontal: 12, paddingVertical: 8, borderRadius: 20 }}>
+          <Text style={{ color: 'white', fontSize: 16, fontWeight: 'bold' }}>🪙 {gameState.collectedCoins}</Text>
         </View>
+      </View>
 
-        {/* Category Tabs */}
-        <View style={{ flexDirection: 'row', marginHorizontal: 20, marginBottom: 20, backgroundColor: 'rgba(255,255,255,0.1)', borderRadius: 25, padding: 4 }}>
-          <TouchableOpacity
-            onPress={() => switchLeaderboardCategory('time')}
-            style={{
-              flex: 1,
-              backgroundColor: gameState.leaderboardCategory === 'time' ? 'white' : 'transparent',
-              paddingVertical: 12,
-              borderRadius: 20,
-              alignItems: 'center',
-            }}
-          >
-            <Text style={{
-              color: gameState.leaderboardCategory === 'time' ? '#4CAF50' : 'white',
-              fontWeight: 'bold',
-              fontSize: 16,
-            }}>
-              ⏱️ Best Time
+      <ScrollView style={{ flex: 1, paddingHorizontal: 20 }} keyboardShouldPersistTaps="handled">
+        {renderSettingsSection('👤 Player', (
+          <>
+            <View style={{ flexDirection: 'row', gap: 10 }}>
+              <TextInput
+                value={nameDraft}
+                onChangeText={text => {
+                  setNameDraft(text);
+                  setNameError(null);
+                }}
+                onSubmitEditing={renamePlayer}
+                maxLength={MAX_PLAYER_NAME_LENGTH}
+                autoCorrect={false}
+                returnKeyType="done"
+                style={{ flex: 1, backgroundColor: 'white', borderRadius: 10, paddingHorizontal: 12, paddingVertical: 8, fontSize: 16 }}
+              />
+              <TouchableOpacity
+                onPress={renamePlayer}
+                disabled={nameDraft === gameState.playerName}
+                style={{
+                  backgroundColor: '#FFD700',
+                  paddingHorizontal: 15,
+                  justifyContent: 'center',
+                  borderRadius: 10,
+                  opacity: nameDraft === gameState.playerName ? 0.5 : 1,
+                }}
+              >
+                <Text style={{ color: '#333', fontSize: 16, fontWeight: 'bold' }}>Save</Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={{ color: nameError ? '#FFCDD2' : 'rgba(255,255,255,0.6)', fontSize: 12, marginTop: 8 }}>
+              {nameError ?? 'Your scores on the leaderboard move to the new name'}
             </Text>
-          </TouchableOpacity>
+          </>
+        ))}
+
+        {renderSettingsSection('🔊 Audio', (
+          <>
+            {renderToggle('🎵 Music', gameState.audioSettings.musicEnabled, musicEnabled => updateAudioSettings({ musicEnabled }))}
+            {gameState.audioSettings.musicEnabled &&
+              renderStepper('Volume', `${Math.round(gameState.audioSettings.musicVolume * 100)}%`, change => changeVolume('musicVolume', change))}
+            {renderToggle('🔔 Sound effects', gameState.audioSettings.sfxEnabled, sfxEnabled => updateAudioSettings({ sfxEnabled }))}
+            {gameState.audioSettings.sfxEnabled &&
+              renderStepper('Volume', `${Math.round(gameState.audioSettings.sfxVolume * 100)}%`, change => changeVolume('sfxVolume', change))}
+            {renderToggle('📳 Vibration', gameState.settings.hapticsEnabled, hapticsEnabled => updateSettings({ hapticsEnabled }))}
+          </>
+        ))}
+
+        {renderSettingsSection('🎮 Controls', (
+          <>
+            <View style={{ flexDirection: 'row', gap: 10, marginBottom: 8 }}>
+              {CONTROL_SCHEMES.map(({ id, label }) => {
+                const isSelected = gameState.settings.controlScheme === id;
 
-          <TouchableOpacity
-            onPress={() => switchLeaderboardCategory('coins')}
-            style={{
-              flex: 1,
-              backgroundColor: gameState.leaderboardCategory === 'coins' ? 'white' : 'transparent',
-              paddingVertical: 12,
-              borderRadius: 20,
-              alignItems: 'center',
-            }}
-          >
-            <Text style={{
-              color: gameState.leaderboardCategory === 'coins' ? '#4CAF50' : 'white',
-              fontWeight: 'bold',
-              fontSize: 16,
-            }}>
-              🪙 Most Coins
+                return (
+                  <TouchableOpacity
+                    key={id}
+                    onPress={() => updateSettings({ controlScheme: id })}
+                    style={{
+                      flex: 1,
+                      backgroundColor: isSelected ? 'white' : 'rgba(255,255,255,0.2)',
+                      paddingVertical: 8,
+                      borderRadius: 20,
+                      alignItems: 'center',
+                    }}
+                  >
+                    <Text style={{ fontSize: 14, fontWeight: 'bold', color: isSelected ? '#4CAF50' : 'white' }}>{label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={{ color: 'rgba(255,255,255,0.6)', fontSize: 12, marginBottom: 15 }}>
+              {CONTROL_SCHEMES.find(scheme => scheme.id === gameState.settings.controlScheme)?.description}
             </Text>
-          </TouchableOpacity>
-        </View>
+            {renderToggle('✋ Left-handed', gameState.settings.leftHanded, leftHanded => updateSettings({ leftHanded }), 'Moves the score to the right of the screen')}
+            {renderStepper('Sensitivity', `${gameState.settings.controlSensitivity.toFixed(1)}x`, changeSensitivity)}
+            <Text style={{ color: 'rgba(255,255,255,0.6)', fontSize: 12, marginTop: -5, marginBottom: 15 }}>
+              How far each tap or kick pushes the ball sideways
+            </Text>
+          </>
+        ))}
 
-        <ScrollView style={{ flex: 1, paddingHorizontal: 20 }}>
-          {sortedLeaderboard.length === 0 ? (
-            <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', marginTop: 100 }}>
-              <Text style={{ fontSize: 18, color: 'white', textAlign: 'center', opacity: 0.7 }}>
-                No scores yet!{'\n'}Play a game to get on the leaderboard.
-              </Text>
+        {renderSettingsSection('💾 Backup & transfer', (
+          <>
+            <Text style={{ color: 'rgba(255,255,255,0.8)', fontSize: 14, marginBottom: 15 }}>
+              Move every profile, coin, skin, achievement and score to another device, or keep a copy to go back to.
+            </Text>
+            <View style={{ flexDirection: 'row', gap: 10, marginBottom: 10 }}>
+              <TouchableOpacity
+                onPress={shareSaveCode}
+                style={{ flex: 1, backgroundColor: 'rgba(255,255,255,0.2)', paddingVertical: 10, borderRadius: 20, alignItems: 'center' }}
+              >
+                <Text style={{ color: 'white', fontSize: 14, fontWeight: 'bold' }}>📤 Share code</Text>
+              </TouchableOpacity>
+              {backupProvider && (
+                <TouchableOpacity
+                  onPress={backUpSave}
+                  style={{ flex: 1, backgroundColor: 'rgba(255,255,255,0.2)', paddingVertical: 10, borderRadius: 20, alignItems: 'center' }}
+                >
+                  <Text style={{ color: 'white', fontSize: 14, fontWeight: 'bold' }}>💾 Save backup</Text>
+                </TouchableOpacity>
+              )}
             </View>
-          ) : (
-            sortedLeaderboard.map((entry, index) => {
-              const isPlayerScore = entry.playerName === gameState.playerName;
-              const currentCategory = gameState.leaderboardCategory;
-              const score = currentCategory === 'time' ? entry.bestTime : entry.bestCoins;
-              const skinEmoji = BALL_SKINS.find(s => s.id === (currentCategory === 'time' ? entry.bestTimeSkin : entry.bestCoinsSkin))?.emoji || '⚽';
-              const timeAgo = new Date(currentCategory === 'time' ? entry.bestTimeTimestamp : entry.bestCoinsTimestamp).toLocaleDateString();
-
-              return (
-                <View
-                  key={entry.id}
-                  style={{
-                    backgroundColor: isPlayerScore ? 'rgba(255,215,0,0.3)' : 'rgba(255,255,255,0.1)',
-                    marginBottom: 12,
-                    borderRadius: 15,
-                    padding: 15,
-                    borderWidth: isPlayerScore ? 2 : 0,
-                    borderColor: '#FFD700',
-                  }}
+            {backupProvider && (
+              <>
+                <View style={{ flexDirection: 'row', gap: 10, marginBottom: 10 }}>
+                  <TouchableOpacity
+                    onPress={shareBackup}
+                    style={{ flex: 1, backgroundColor: 'rgba(255,255,255,0.2)', paddingVertical: 10, borderRadius: 20, alignItems: 'center' }}
+                  >
+                    <Text style={{ color: 'white', fontSize: 14, fontWeight: 'bold' }}>📁 Export file</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={openBackupFile}
+                    style={{ flex: 1, backgroundColor: 'rgba(255,255,255,0.2)', paddingVertical: 10, borderRadius: 20, alignItems: 'center' }}
+                  >
+                    <Text style={{ color: 'white', fontSize: 14, fontWeight: 'bold' }}>📂 Open file</Text>
+                  </TouchableOpacity>
+                </View>
+                <Text style={{ color: 'rgba(255,255,255,0.6)', fontSize: 12, marginBottom: 10 }}>
+                  Saved backups are removed along with the game. To restore after reinstalling, export a file or share a code and keep it somewhere else.
+                </Text>
+              </>
+            )}
+            {transferCode && (
+              <TextInput
+                value={transferCode}
+                editable={false}
+                multiline
+                selectTextOnFocus
+                style={{ backgroundColor: 'rgba(0,0,0,0.2)', color: 'white', borderRadius: 10, padding: 10, fontSize: 12, maxHeight: 100, marginBottom: 10 }}
+              />
+            )}
+
+            {backups.map(backup => (
+              <View
+                key={backup.id}
+                style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingVertical: 6 }}
+              >
+                <Text style={{ color: 'white', fontSize: 14 }}>🗂️ {new Date(backup.createdAt).toLocaleString()}</Text>
+                <TouchableOpacity
+                  onPress={() => restoreBackup(backup.id)}
+                  style={{ backgroundColor: 'rgba(255,255,255,0.2)', paddingHorizontal: 12, paddingVertical: 6, borderRadius: 15 }}
                 >
-                  <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
-                    <View style={{ flexDirection: 'row', alignItems: 'center', flex: 1 }}>
-                      <View style={{
-                        width: 35,
-                        height: 35,
-                        borderRadius: 17.5,
-                        backgroundColor: index < 3 ? ['#FFD700', '#C0C0C0', '#CD7F32'][index] : '#666',
-                        justifyContent: 'center',
-                        alignItems: 'center',
-                        marginRight: 15,
-                      }}>
-                        <Text style={{
-                          color: index < 3 ? '#333' : 'white',
-                          fontWeight: 'bold',
-                          fontSize: 16,
-                        }}>
-                          {index + 1}
-                        </Text>
-                      </View>
-
-                      <View style={{ flex: 1 }}>
-                        <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 3 }}>
-                          <Text style={{ fontSize: 18, fontWeight: 'bold', color: 'white', marginRight: 8 }}>
-                            {entry.playerName}
-                          </Text>
-                          <Text style={{ fontSize: 16 }}>{skinEmoji}</Text>
-                          {isPlayerScore && (
-                            <Text style={{ fontSize: 12, color: '#FFD700', marginLeft: 8, fontWeight: 'bold' }}>
-                              (YOU)
-                            </Text>
-                          )}
-                        </View>
-                        <Text style={{ fontSize: 14, color: 'rgba(255,255,255,0.7)' }}>
-                          {timeAgo} • {currentCategory === 'time' ? `${entry.bestCoins} coins` : `${entry.bestTime}s survived`}
-                        </Text>
-                      </View>
-                    </View>
-
-                    <View style={{ alignItems: 'flex-end' }}>
-                      <Text style={{ fontSize: 20, fontWeight: 'bold', color: 'white' }}>
-                        {currentCategory === 'time' ? `${score}s` : `${score} 🪙`}
-                      </Text>
-                    </View>
-                  </View>
+                  <Text style={{ color: 'white', fontSize: 12, fontWeight: 'bold' }}>Restore</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            <View style={{ flexDirection: 'row', gap: 10, marginTop: 10 }}>
+              <TextInput
+                value={importDraft}
+                onChangeText={text => {
+                  setImportDraft(text);
+                  setTransferError(null);
+                }}
+                placeholder="Paste a save code"
+                autoCapitalize="none"
+                autoCorrect={false}
+                style={{ flex: 1, backgroundColor: 'white', borderRadius: 10, paddingHorizontal: 12, paddingVertical: 8, fontSize: 16 }}
+              />
+              <TouchableOpacity
+                onPress={() => previewImport(importDraft)}
+                disabled={importDraft.trim() === ''}
+                style={{
+                  backgroundColor: '#FFD700',
+                  paddingHorizontal: 15,
+                  justifyContent: 'center',
+                  borderRadius: 10,
+                  opacity: importDraft.trim() === '' ? 0.5 : 1,
+                }}
+              >
+                <Text style={{ color: '#333', fontSize: 16, fontWeight: 'bold' }}>Import</Text>
+              </TouchableOpacity>
+            </View>
+            {transferError && (
+              <Text style={{ color: '#FFCDD2', fontSize: 12, marginTop: 8 }}>{transferError}</Text>
+            )}
+
+            {pendingImport && (
+              <View style={{ backgroundColor: 'rgba(0,0,0,0.2)', borderRadius: 10, padding: 12, marginTop: 10 }}>
+                <Text style={{ color: 'white', fontSize: 14, fontWeight: 'bold' }}>
+                  {getAllProfiles(pendingImport.data).map(profile => profile.playerName).join(', ')}
+                </Text>
+                <Text style={{ color: 'rgba(255,255,255,0.8)', fontSize: 12, marginTop: 4 }}>
+                  🪙 {pendingImport.data.collectedCoins} · {pendingImport.data.unlockedSkins.length} skins
+                  {pendingImport.exportedAt > 0 ? ` · saved ${new Date(pendingImport.exportedAt).toLocaleString()}` : ''}
+                </Text>
+                {pendingImport.issues.length > 0 && (
+                  <Text style={{ color: '#FFCDD2', fontSize: 12, marginTop: 4 }}>
+                    Not everything will come across as it is:{'\n'}{pendingImport.issues.join('\n')}
+                  </Text>
+                )}
+                <Text style={{ color: 'rgba(255,255,255,0.6)', fontSize: 12, marginTop: 8 }}>
+                  Merge keeps the best of both saves. Replace swaps this device's save for the imported one.
+                </Text>
+                <View style={{ flexDirection: 'row', gap: 10, marginTop: 10 }}>
+                  <TouchableOpacity
+                    onPress={() => applyImport('merge')}
+                    style={{ flex: 1, backgroundColor: '#FFD700', paddingVertical: 10, borderRadius: 20, alignItems: 'center' }}
+                  >
+                    <Text style={{ color: '#333', fontSize: 14, fontWeight: 'bold' }}>Merge</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => applyImport('replace')}
+                    style={{ flex: 1, backgroundColor: 'rgba(244,67,54,0.8)', paddingVertical: 10, borderRadius: 20, alignItems: 'center' }}
+                  >
+                    <Text style={{ color: 'white', fontSize: 14, fontWeight: 'bold' }}>Replace</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => setPendingImport(null)}
+                    style={{ flex: 1, backgroundColor: '#666', paddingVertical: 10, borderRadius: 20, alignItems: 'center' }}
+                  >
+                    <Text style={{ color: 'white', fontSize: 14, fontWeight: 'bold' }}>Cancel</Text>
+                  </TouchableOpacity>
                 </View>
-              );
-            })
-          )}
+              </View>
+            )}
+          </>
+        ))}
+
+        {renderSettingsSection('⚠️ Reset progress', (
+          <>
+            <Text style={{ color: 'rgba(255,255,255,0.8)', fontSize: 14, marginBottom: 15 }}>
+              Deletes {gameState.playerName}'s coins, skins, power-ups, scores, stars and achievements. Other profiles aren't affected. This can't be undone.
+            </Text>
+            {isConfirmingReset ? (
+              <View style={{ flexDirection: 'row', gap: 10 }}>
+                <TouchableOpacity
+                  onPress={resetProgress}
+                  style={{ flex: 1, backgroundColor: '#F44336', paddingVertical: 12, borderRadius: 20, alignItems: 'center' }}
+                >
+                  <Text style={{ color: 'white', fontSize: 16, fontWeight: 'bold' }}>Yes, reset</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => setIsConfirmingReset(false)}
+                  style={{ flex: 1, backgroundColor: '#666', paddingVertical: 12, borderRadius: 20, alignItems: 'center' }}
+                >
+                  <Text style={{ color: 'white', fontSize: 16, fontWeight: 'bold' }}>Cancel</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <TouchableOpacity
+                onPress={() => setIsConfirmingReset(true)}
+                style={{ backgroundColor: 'rgba(244,67,54,0.8)', paddingVertical: 12, borderRadius: 20, alignItems: 'center' }}
+              >
+                <Text style={{ color: 'white', fontSize: 16, fontWeight: 'bold' }}>Reset Progress</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        ))}
 
-          <View style={{ height: 100 }} />
-        </ScrollView>
-      </View>
-    );
-  };
+        <View style={{ height: 50 }} />
+      </ScrollView>
+    </View>
+  );
 
   // Achievements Screen Component
   const renderAchievementsScreen = () => (
@@ -1200,88 +3201,344 @@ export const SimpleGameEngine: React.FC = () => {
     </View>
   );
 
-  // Game Screen Component
-  const renderGameScreen = () => (
-    <TouchableWithoutFeedback onPress={handleScreenPress}>
-      <View style={{ flex: 1, backgroundColor: '#4CAF50' }}>
-      {/* Ball */}
+  // Game Screen Component; the gesture controls take over from the tap handler
+  const renderGameScreen = () =>
+    gameState.settings.controlScheme === 'gesture' ? (
+      <GestureDetector gesture={kickGesture}>{renderGameField()}</GestureDetector>
+    ) : (
+      <TouchableWithoutFeedback onPress={handleScreenPress}>{renderGameField()}</TouchableWithoutFeedback>
+    );
+
+  // The touchables above need a native view as their direct child
+  const renderGameField = () => (
+    <View style={{ flex: 1, backgroundColor: '#4CAF50' }}>
+      <FrameView frames={framesRef.current} render={renderFrameContents} />
+    </View>
+  );
+
+  const renderFrameContents = (simulation: SimulationState) => (
+    <>
+      {/* The field, scaled to fit when it isn't the screen's size. Touches
+          pass through to the game screen, which reads them in screen coordinates. */}
       <View
+        pointerEvents="none"
         style={{
           position: 'absolute',
-          left: gameState.ball.position.x - BASE_CONFIG.ballRadius,
-          top: gameState.ball.position.y - BASE_CONFIG.ballRadius,
-          width: BASE_CONFIG.ballRadius * 2,
-          height: BASE_CONFIG.ballRadius * 2,
-          borderRadius: BASE_CONFIG.ballRadius,
-          backgroundColor: 'transparent',
-          justifyContent: 'center',
-          alignItems: 'center',
+          left: (SCREEN_WIDTH - simulation.config.screenWidth) / 2,
+          top: (SCREEN_HEIGHT - simulation.config.screenHeight) / 2,
+          width: simulation.config.screenWidth,
+          height: simulation.config.screenHeight,
+          transform: [{ scale: getFieldFit(simulation.config).scale }],
         }}
       >
-        <Text style={{ fontSize: BASE_CONFIG.ballRadius * 1.5 }}>
-          {getCurrentSkinEmoji()}
-        </Text>
-      </View>
+        {/* Shield around the ball */}
+        {simulation.activePowerUps.shield > 0 && (
+          <View
+            style={{
+              position: 'absolute',
+              left: simulation.ball.position.x - BALL_RADIUS - 6,
+              top: simulation.ball.position.y - BALL_RADIUS - 6,
+              width: (BALL_RADIUS + 6) * 2,
+              height: (BALL_RADIUS + 6) * 2,
+              borderRadius: BALL_RADIUS + 6,
+              borderWidth: 3,
+              borderColor: 'rgba(100,200,255,0.8)',
+              backgroundColor: 'rgba(100,200,255,0.2)',
+            }}
+          />
+        )}
 
-      {/* Obstacles */}
-      {gameState.obstacles.map((obstacle) => (
+        {/* Combo band: juggles made with the ball in here build a combo */}
         <View
-          key={obstacle.id}
+          pointerEvents="none"
           style={{
             position: 'absolute',
-            left: obstacle.position.x,
-            top: obstacle.position.y,
-            width: obstacle.width,
-            height: obstacle.height,
-            backgroundColor: getObstacleColor(obstacle.type),
-            borderRadius: obstacle.type === 'cone' ? obstacle.width / 2 : 5,
+            left: 0,
+            right: 0,
+            top: simulation.config.screenHeight * COMBO_BAND.top,
+            height: simulation.config.screenHeight * (COMBO_BAND.bottom - COMBO_BAND.top),
+            backgroundColor: 'rgba(255,255,255,0.06)',
           }}
         />
-      ))}
 
-      {/* Coins */}
-      {gameState.coins.map((coin) => (
+        {/* Ball */}
         <View
-          key={coin.id}
           style={{
             position: 'absolute',
-            left: coin.position.x - coin.radius,
-            top: coin.position.y - coin.radius,
-            width: coin.radius * 2,
-            height: coin.radius * 2,
-            borderRadius: coin.radius,
-            backgroundColor: '#FFD700',
-            borderWidth: 2,
-            borderColor: '#FFA500',
+            left: simulation.ball.position.x - BALL_RADIUS,
+            top: simulation.ball.position.y - BALL_RADIUS,
+            width: BALL_RADIUS * 2,
+            height: BALL_RADIUS * 2,
+            borderRadius: BALL_RADIUS,
+            backgroundColor: 'transparent',
             justifyContent: 'center',
             alignItems: 'center',
           }}
         >
-          <Text style={{ fontSize: coin.radius, fontWeight: 'bold', color: '#B8860B' }}>
-            {coin.value === 1 ? '🪙' : '💰'}
+          <Text style={{ fontSize: BALL_RADIUS * 1.5 }}>
+            {gameState.currentScreen === 'replay' && activeReplay ? getSkinEmoji(activeReplay.skin) : getCurrentSkinEmoji()}
           </Text>
         </View>
-      ))}
+
+        {/* Obstacles */}
+        {simulation.obstacles.map((obstacle) => (
+          <View
+            key={obstacle.id}
+            style={{
+              position: 'absolute',
+              left: obstacle.position.x - obstacle.width / 2,
+              top: obstacle.position.y - obstacle.height / 2,
+              ...getObstacleShapeStyle(obstacle),
+            }}
+          />
+        ))}
+
+        {/* Coins */}
+        {simulation.coins.map((coin) => (
+          <View
+            key={coin.id}
+            style={{
+              position: 'absolute',
+              left: coin.position.x - coin.radius,
+              top: coin.position.y - coin.radius,
+              width: coin.radius * 2,
+              height: coin.radius * 2,
+              borderRadius: coin.radius,
+              backgroundColor: '#FFD700',
+              borderWidth: 2,
+              borderColor: '#FFA500',
+              justifyContent: 'center',
+              alignItems: 'center',
+            }}
+          >
+            <Text style={{ fontSize: coin.radius, fontWeight: 'bold', color: '#B8860B' }}>
+              {coin.value === 1 ? '🪙' : '💰'}
+            </Text>
+          </View>
+        ))}
+
+        {/* Power-ups */}
+        {simulation.powerUps.map((powerUp) => (
+          <View
+            key={powerUp.id}
+            style={{
+              position: 'absolute',
+              left: powerUp.position.x - powerUp.radius,
+              top: powerUp.position.y - powerUp.radius,
+              width: powerUp.radius * 2,
+              height: powerUp.radius * 2,
+              borderRadius: powerUp.radius,
+              backgroundColor: '#2196F3',
+              borderWidth: 2,
+              borderColor: 'white',
+              justifyContent: 'center',
+              alignItems: 'center',
+            }}
+          >
+            <Text style={{ fontSize: powerUp.radius }}>
+              {POWER_UPS[powerUp.type].emoji}
+            </Text>
+          </View>
+        ))}
+
+        {/* Hitbox debug overlay */}
+        {showHitboxes && (
+          <>
+            {renderHitbox(getBallHitbox(simulation.ball), 'ball')}
+            {simulation.obstacles.map(obstacle => renderHitbox(getObstacleHitbox(obstacle), obstacle.id))}
+            {simulation.coins.map(coin => renderHitbox(getCoinHitbox(coin), coin.id))}
+            {simulation.powerUps.map(powerUp => renderHitbox(getPowerUpHitbox(powerUp), powerUp.id))}
+          </>
+        )}
+      </View>
 
       {/* Score and Difficulty */}
-      <View style={{ position: 'absolute', top: 50, left: 20 }}>
+      <View style={{ position: 'absolute', top: 50, ...getHudSideStyle('start') }}>
         <Text style={{ fontSize: 24, fontWeight: 'bold', color: 'white' }}>
-          Score: {Math.floor(gameState.score / 60)}s
+          ⭐ {getPoints(simulation.stats)}
         </Text>
         <Text style={{ fontSize: 16, color: 'white', marginTop: 5 }}>
-          Speed: {getDifficultyMultiplier(gameState.score).speedMultiplier.toFixed(1)}x
+          ⏱️ {Math.floor(simulation.stats.duration)}s · ⚽ {simulation.stats.taps}
         </Text>
+        {simulation.stats.combo > 1 && (
+          <Text style={{ fontSize: 18, color: '#FFD700', fontWeight: 'bold', marginTop: 5 }}>
+            🔥 {simulation.stats.combo} combo x{getComboMultiplier(simulation.stats.combo)}
+          </Text>
+        )}
+        {simulation.config.level ? (
+          <Text style={{ fontSize: 16, color: 'white', marginTop: 5 }}>
+            🎯 {getGoalProgress(simulation.config.level.goal, simulation.stats)}
+          </Text>
+        ) : (
+          <Text style={{ fontSize: 16, color: 'white', marginTop: 5 }}>
+            Speed: {getSpeedMultiplier(simulation).toFixed(1)}x
+          </Text>
+        )}
+
+        {/* Active power-up timers */}
+        {POWER_UP_TYPES.filter(type => simulation.activePowerUps[type] > 0).map(type => (
+          <Text key={type} style={{ fontSize: 16, color: 'white', fontWeight: 'bold', marginTop: 5 }}>
+            {POWER_UPS[type].emoji} {Math.ceil(simulation.activePowerUps[type])}s
+          </Text>
+        ))}
       </View>
 
+      {/* Pause button */}
+      {gameState.currentScreen === 'playing' && (
+        <View style={{ position: 'absolute', top: 45, left: 0, right: 0, alignItems: 'center' }} pointerEvents="box-none">
+          <TouchableOpacity
+            onPress={pauseGame}
+            style={{ backgroundColor: 'rgba(255,255,255,0.2)', width: 44, height: 44, borderRadius: 22, justifyContent: 'center', alignItems: 'center' }}
+          >
+            <Text style={{ color: 'white', fontSize: 20, fontWeight: 'bold' }}>II</Text>
+          </TouchableOpacity>
+          {isCharging && (
+            <Text style={{ color: '#FFD700', fontSize: 16, fontWeight: 'bold', marginTop: 8 }}>⚡ Charging power kick</Text>
+          )}
+        </View>
+      )}
+
       {/* Coins display during gameplay */}
-      <View style={{ position: 'absolute', top: 50, right: 20 }}>
+      <View style={{ position: 'absolute', top: 50, ...getHudSideStyle('end') }}>
         <Text style={{ fontSize: 18, color: 'white', fontWeight: 'bold' }}>
-          🪙 {gameState.collectedCoins}
+          🪙 {simulation.stats.coinsCollected}
         </Text>
+        {__DEV__ && (
+          <TouchableOpacity
+            onPress={() => setShowHitboxes(show => !show)}
+            style={{ backgroundColor: 'rgba(0,0,0,0.3)', paddingHorizontal: 8, paddingVertical: 4, borderRadius: 10, marginTop: 8 }}
+          >
+            <Text style={{ color: 'white', fontSize: 12 }}>{showHitboxes ? 'Hide' : 'Show'} hitboxes</Text>
+          </TouchableOpacity>
+        )}
       </View>
+    </>
+  );
+
+  // A label with − and + buttons either side of the current value; steps are always 0.1
+  const renderStepper = (label: string, value: string, onChange: (change: number) => void) => (
+    <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 15 }}>
+      <Text style={{ color: 'white', fontSize: 16, width: 90 }}>{label}</Text>
+      <TouchableOpacity
+        onPress={() => onChange(-0.1)}
+        style={{ backgroundColor: 'rgba(255,255,255,0.2)', width: 36, height: 36, borderRadius: 18, justifyContent: 'center', alignItems: 'center' }}
+      >
+        <Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold' }}>−</Text>
+      </TouchableOpacity>
+      <Text style={{ color: 'white', fontSize: 16, fontWeight: 'bold', width: 60, textAlign: 'center' }}>
+        {value}
+      </Text>
+      <TouchableOpacity
+        onPress={() => onChange(0.1)}
+        style={{ backgroundColor: 'rgba(255,255,255,0.2)', width: 36, height: 36, borderRadius: 18, justifyContent: 'center', alignItems: 'center' }}
+      >
+        <Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold' }}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  // Pause Overlay Component
+  const renderPauseOverlay = () => (
+    <View style={{
+      position: 'absolute',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0,0,0,0.6)',
+      justifyContent: 'center',
+      alignItems: 'center',
+    }}>
+      {resumeCountdown > 0 ? (
+        <Text style={{ fontSize: 96, fontWeight: 'bold', color: 'white' }}>
+          {resumeCountdown}
+        </Text>
+      ) : (
+        <>
+          <Text style={{ fontSize: 36, fontWeight: 'bold', color: 'white', marginBottom: 30 }}>
+            Paused
+          </Text>
+
+          {/* Volume controls */}
+          {renderStepper('🎵 Music', `${Math.round(gameState.audioSettings.musicVolume * 100)}%`, change => changeVolume('musicVolume', change))}
+          {renderStepper('🔊 Sound', `${Math.round(gameState.audioSettings.sfxVolume * 100)}%`, change => changeVolume('sfxVolume', change))}
+
+          <View style={{ height: 15 }} />
+
+          <View style={{ flexDirection: 'row', gap: 20 }}>
+            <TouchableOpacity
+              onPress={resumeGame}
+              style={{
+                backgroundColor: '#4CAF50',
+                paddingHorizontal: 30,
+                paddingVertical: 15,
+                borderRadius: 25,
+              }}
+            >
+              <Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold' }}>
+                Resume
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              onPress={quitRun}
+              style={{
+                backgroundColor: '#666',
+                paddingHorizontal: 30,
+                paddingVertical: 15,
+                borderRadius: 25,
+              }}
+            >
+              <Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold' }}>
+                Quit
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+    </View>
+  );
+
+  // Replay Screen Component (drawn over the game field)
+  const renderReplayOverlay = () => (
+    <View style={{ position: 'absolute', bottom: 40, left: 0, right: 0, alignItems: 'center' }}>
+      <Text style={{ fontSize: 20, fontWeight: 'bold', color: 'white', marginBottom: 15 }}>
+        🎬 REPLAY
+      </Text>
+      <View style={{ flexDirection: 'row', gap: 20 }}>
+        {playbackFinished && activeReplay && (
+          <TouchableOpacity
+            onPress={() => watchReplay(activeReplay)}
+            style={{
+              backgroundColor: '#4CAF50',
+              paddingHorizontal: 30,
+              paddingVertical: 15,
+              borderRadius: 25,
+              borderWidth: 2,
+              borderColor: 'white',
+            }}
+          >
+            <Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold' }}>
+              Watch Again
+            </Text>
+          </TouchableOpacity>
+        )}
 
+        <TouchableOpacity
+          onPress={goToLeaderboard}
+          style={{
+            backgroundColor: '#666',
+            paddingHorizontal: 30,
+            paddingVertical: 15,
+            borderRadius: 25,
+          }}
+        >
+          <Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold' }}>
+            ← Back
+          </Text>
+        </TouchableOpacity>
       </View>
-    </TouchableWithoutFeedback>
+    </View>
   );
 
   // Main render logic
@@ -1289,15 +3546,40 @@ export const SimpleGameEngine: React.FC = () => {
     <View style={{ flex: 1 }}>
       {gameState.currentScreen === 'menu' && renderMenuScreen()}
       {gameState.currentScreen === 'store' && renderStoreScreen()}
+      {gameState.currentScreen === 'coinHistory' && renderCoinHistoryScreen()}
       {gameState.currentScreen === 'leaderboard' && renderLeaderboardScreen()}
       {gameState.currentScreen === 'achievements' && renderAchievementsScreen()}
+      {gameState.currentScreen === 'levelSelect' && renderLevelSelectScreen()}
+      {gameState.currentScreen === 'settings' && renderSettingsScreen()}
+      {gameState.currentScreen === 'profiles' && renderProfilesScreen()}
       {gameState.currentScreen === 'playing' && renderGameScreen()}
+      {gameState.currentScreen === 'paused' && (
+        <>
+          {renderGameScreen()}
+          {renderPauseOverlay()}
+        </>
+      )}
+      {gameState.currentScreen === 'replay' && (
+        <>
+          {renderGameScreen()}
+          {renderReplayOverlay()}
+        </>
+      )}
       {gameState.currentScreen === 'gameOver' && (
         <>
           {renderGameScreen()}
           {renderGameOverScreen()}
         </>
       )}
+
+      {/* Toast */}
+      {toast && (
+        <View style={{ position: 'absolute', top: 110, left: 0, right: 0, alignItems: 'center' }} pointerEvents="none">
+          <View style={{ backgroundColor: 'rgba(0,0,0,0.75)', paddingHorizontal: 20, paddingVertical: 10, borderRadius: 20 }}>
+            <Text style={{ color: 'white', fontSize: 16, fontWeight: 'bold' }}>{toast}</Text>
+          </View>
+        </View>
+      )}
     </View>
   );
 };
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { Achievement, BallSkin, DailyReward, PowerUpInfo, PowerUpType } from '../types/game';
+
+// Ball skins data
+export const BALL_SKINS: BallSkin[] = [
+  { id: 'classic', name: 'Classic', emoji: '⚽', coinPrice: 0, cashPrice: 0, unlocked: true },
+  { id: 'basketball', name: 'Basketball', emoji: '🏀', coinPrice: 100, cashPrice: 99, unlocked: false },
+  { id: 'tennis', name: 'Tennis Ball', emoji: '🎾', coinPrice: 150, cashPrice: 99, unlocked: false },
+  { id: 'volleyball', name: 'Volleyball', emoji: '🏐', coinPrice: 200, cashPrice: 149, unlocked: false },
+  { id: 'football', name: 'American Football', emoji: '🏈', coinPrice: 250, cashPrice: 149, unlocked: false },
+  { id: 'baseball', name: 'Baseball', emoji: '⚾', coinPrice: 300, cashPrice: 199, unlocked: false },
+  { id: 'golf', name: 'Golf Ball', emoji: '⛳', coinPrice: 350, cashPrice: 199, unlocked: false },
+  { id: 'crystal', name: 'Crystal Ball', emoji: '🔮', coinPrice: 500, cashPrice: 299, unlocked: false },
+];
+
+// Daily rewards data
+export const DAILY_REWARDS: DailyReward[] = [
+  { day: 1, coins: 10, description: "Welcome back!", claimed: false },
+  { day: 2, coins: 15, description: "Keep it up!", claimed: false },
+  { day: 3, coins: 20, description: "Great streak!", claimed: false },
+  { day: 4, coins: 25, description: "You're on fire!", claimed: false },
+  { day: 5, coins: 30, description: "Amazing dedication!", claimed: false },
+  { day: 6, coins: 40, description: "Almost there!", claimed: false },
+  { day: 7, coins: 50, description: "Weekly champion!", claimed: false },
+];
+
+// Achievements data
+export const INITIAL_ACHIEVEMENTS: Achievement[] = [
+  { id: 'first_game', title: 'Getting Started', description: 'Play your first game', requirement: 1, progress: 0, completed: false, reward: 10, icon: '🎮', type: 'games' },
+  { id: 'collect_50_coins', title: 'Coin Collector', description: 'Collect 50 coins in total', requirement: 50, progress: 0, completed: false, reward: 20, icon: '🪙', type: 'coins' },
+  { id: 'survive_60s', title: 'Survivor', description: 'Survive for 60 seconds in one game', requirement: 60, progress: 0, completed: false, reward: 30, icon: '⏱️', type: 'time' },
+  { id: 'play_10_games', title: 'Dedicated Player', description: 'Play 10 games', requirement: 10, progress: 0, completed: false, reward: 25, icon: '🏆', type: 'games' },
+  { id: 'collect_3_skins', title: 'Fashion Forward', description: 'Unlock 3 different ball skins', requirement: 3, progress: 1, completed: false, reward: 40, icon: '👕', type: 'skins' },
+  { id: 'collect_100_one_game', title: 'Treasure Hunter', description: 'Collect 100 coins in one game', requirement: 100, progress: 0, completed: false, reward: 50, icon: '💰', type: 'coins' },
+  { id: 'survive_120s', title: 'Master Survivor', description: 'Survive for 2 minutes in one game', requirement: 120, progress: 0, completed: false, reward: 75, icon: '🥇', type: 'time' },
+  { id: 'login_streak', title: 'Daily Champion', description: 'Login for 7 days in a row', requirement: 7, progress: 0, completed: false, reward: 100, icon: '📅', type: 'special' },
+];
+
+// Power-ups data
+export const POWER_UPS: Record<PowerUpType, PowerUpInfo> = {
+  shield: { type: 'shield', name: 'Shield', emoji: '🛡️', description: 'Survive one obstacle hit', duration: 10, coinPrice: 60 },
+  magnet: { type: 'magnet', name: 'Coin Magnet', emoji: '🧲', description: 'Pulls nearby coins to the ball', duration: 8, coinPrice: 40 },
+  slowMotion: { type: 'slowMotion', name: 'Slow Motion', emoji: '🐢', description: 'Slows obstacles and coins down', duration: 6, coinPrice: 40 },
+  doubleCoins: { type: 'doubleCoins', name: 'Double Coins', emoji: '✨', description: 'Every coin counts twice', duration: 10, coinPrice: 50 },
+};
+
+export const POWER_UP_TYPES = Object.keys(POWER_UPS) as PowerUpType[];
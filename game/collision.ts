@@ -0,0 +1,90 @@
+import { Ball, Coin, Obstacle, ObstacleType, PowerUp, Vector2 } from '../types/game';
+
+// Every entity's position is its centre; hitboxes are in screen coordinates
+export type Hitbox =
+  | { kind: 'circle'; center: Vector2; radius: number }
+  | { kind: 'rect'; min: Vector2; max: Vector2 }
+  | { kind: 'polygon'; points: Vector2[] }; // convex
+
+const rectHitbox = (obstacle: Obstacle): Hitbox => ({
+  kind: 'rect',
+  min: { x: obstacle.position.x - obstacle.width / 2, y: obstacle.position.y - obstacle.height / 2 },
+  max: { x: obstacle.position.x + obstacle.width / 2, y: obstacle.position.y + obstacle.height / 2 },
+});
+
+// Cones are triangles: apex at the top, base along the bottom edge
+const triangleHitbox = (obstacle: Obstacle): Hitbox => {
+  const { x, y } = obstacle.position;
+  const halfWidth = obstacle.width / 2;
+  const halfHeight = obstacle.height / 2;
+
+  return {
+    kind: 'polygon',
+    points: [
+      { x, y: y - halfHeight },
+      { x: x + halfWidth, y: y + halfHeight },
+      { x: x - halfWidth, y: y + halfHeight },
+    ],
+  };
+};
+
+const OBSTACLE_HITBOXES: Record<ObstacleType, (obstacle: Obstacle) => Hitbox> = {
+  cone: triangleHitbox,
+  goalpost: rectHitbox,
+  defender: rectHitbox,
+};
+
+export const getObstacleHitbox = (obstacle: Obstacle): Hitbox => OBSTACLE_HITBOXES[obstacle.type](obstacle);
+
+export const getBallHitbox = (ball: Ball): Hitbox => ({ kind: 'circle', center: ball.position, radius: ball.radius });
+
+export const getCoinHitbox = (coin: Coin): Hitbox => ({ kind: 'circle', center: coin.position, radius: coin.radius });
+
+export const getPowerUpHitbox = (powerUp: PowerUp): Hitbox => ({ kind: 'circle', center: powerUp.position, radius: powerUp.radius });
+
+const distanceSquared = (a: Vector2, b: Vector2) => (a.x - b.x) ** 2 + (a.y - b.y) ** 2;
+
+// Squared distance from a point to the segment a-b
+const segmentDistanceSquared = (point: Vector2, a: Vector2, b: Vector2) => {
+  const abX = b.x - a.x;
+  const abY = b.y - a.y;
+  const lengthSquared = abX * abX + abY * abY;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point.x - a.x) * abX + (point.y - a.y) * abY) / lengthSquared));
+
+  return distanceSquared(point, { x: a.x + abX * t, y: a.y + abY * t });
+};
+
+// Whether a point is inside a convex polygon: on the same side of every edge
+const polygonContains = (points: Vector2[], point: Vector2) => {
+  let sign = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const cross = (b.x - a.x) * (point.y - a.y) - (b.y - a.y) * (point.x - a.x);
+    if (cross !== 0) {
+      if (sign !== 0 && Math.sign(cross) !== sign) return false;
+      sign = Math.sign(cross);
+    }
+  }
+  return true;
+};
+
+export const circleIntersectsHitbox = (center: Vector2, radius: number, hitbox: Hitbox): boolean => {
+  switch (hitbox.kind) {
+    case 'circle':
+      return distanceSquared(center, hitbox.center) < (radius + hitbox.radius) ** 2;
+    case 'rect': {
+      const closest = {
+        x: Math.max(hitbox.min.x, Math.min(center.x, hitbox.max.x)),
+        y: Math.max(hitbox.min.y, Math.min(center.y, hitbox.max.y)),
+      };
+      return distanceSquared(center, closest) < radius * radius;
+    }
+    case 'polygon':
+      return polygonContains(hitbox.points, center) || hitbox.points.some((point, i) =>
+        segmentDistanceSquared(center, point, hitbox.points[(i + 1) % hitbox.points.length]) < radius * radius
+      );
+  }
+};
@@ -0,0 +1,31 @@
+import { Kick, Vector2 } from '../types/game';
+import { MAX_KICK_ANGLE, MAX_KICK_STRENGTH } from './simulation';
+
+const SWIPE_MIN_DISTANCE = 20; // shorter movements are taps
+const SWIPE_FULL_DISTANCE = 200; // a swipe this long kicks at full strength
+export const CHARGE_START_SECONDS = 0.35; // holding still this long starts charging a power kick
+const CHARGE_FULL_SECONDS = 1.2;
+
+// What one finger did between touching down and lifting off under the
+// gesture controls: a swipe aims a kick, a long press charges a power kick
+// straight up, and anything else is a classic tap
+export type TouchResult = { kind: 'tap'; position: Vector2 } | { kind: 'kick'; kick: Kick };
+
+export const interpretTouch = (start: Vector2, end: Vector2, heldSeconds: number): TouchResult => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const distance = Math.hypot(dx, dy);
+
+  if (distance >= SWIPE_MIN_DISTANCE) {
+    // Screen y grows downwards, so an upward swipe has a negative dy
+    const angle = Math.max(-MAX_KICK_ANGLE, Math.min(MAX_KICK_ANGLE, Math.atan2(dx, -dy)));
+    return { kind: 'kick', kick: { angle, strength: Math.min(1, distance / SWIPE_FULL_DISTANCE) } };
+  }
+
+  if (heldSeconds >= CHARGE_START_SECONDS) {
+    const charge = Math.min(1, (heldSeconds - CHARGE_START_SECONDS) / (CHARGE_FULL_SECONDS - CHARGE_START_SECONDS));
+    return { kind: 'kick', kick: { angle: 0, strength: 1 + (MAX_KICK_STRENGTH - 1) * charge } };
+  }
+
+  return { kind: 'tap', position: end };
+};
@@ -0,0 +1,23 @@
+import { DifficultyPresetId } from '../types/game';
+import { createSeedFromString } from './rng';
+
+// Everyone plays the daily challenge on the same preset and without
+// starting power-ups, so the course and the odds are identical
+export const DAILY_CHALLENGE_PRESET: DifficultyPresetId = 'normal';
+
+// The course is laid out on a field of this size whatever the screen, so
+// obstacles and coins land in the same places for everyone; it's scaled to
+// fit the screen when drawn
+export const DAILY_CHALLENGE_FIELD = { width: 390, height: 844 };
+
+// Bonus for finishing the day's attempt, plus extra for every day of the login streak
+const DAILY_CHALLENGE_REWARD = 25;
+const DAILY_CHALLENGE_STREAK_BONUS = 5;
+
+// The challenge changes at midnight UTC so it's the same day for every player
+export const getChallengeDate = (now: Date = new Date()) => now.toISOString().slice(0, 10);
+
+export const getDailyChallengeSeed = (challengeDate: string) => createSeedFromString(`daily:${challengeDate}`);
+
+export const getDailyChallengeReward = (streak: number) =>
+  DAILY_CHALLENGE_REWARD + DAILY_CHALLENGE_STREAK_BONUS * streak;
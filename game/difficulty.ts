@@ -0,0 +1,59 @@
+import { Difficulty, DifficultyCurve, DifficultyCurves, DifficultyPreset, DifficultyPresetId, ObstacleType } from '../types/game';
+import { OBSTACLE_TYPES } from './obstacles';
+import difficultyCurves from './difficultyCurves.json';
+
+// Value of a curve `time` seconds into a run
+export const sampleCurve = (curve: DifficultyCurve, time: number): number => {
+  if (curve.length === 0) return 0;
+  if (time <= curve[0].time) return curve[0].value;
+
+  for (let i = 1; i < curve.length; i++) {
+    const from = curve[i - 1];
+    const to = curve[i];
+    if (time < to.time) {
+      return from.value + (to.value - from.value) * ((time - from.time) / (to.time - from.time));
+    }
+  }
+
+  return curve[curve.length - 1].value;
+};
+
+export const sampleDifficulty = (curves: DifficultyCurves, time: number): Difficulty => ({
+  obstacleSpeed: sampleCurve(curves.obstacleSpeed, time),
+  spawnRate: sampleCurve(curves.spawnRate, time),
+  coinRate: sampleCurve(curves.coinRate, time),
+  gravity: sampleCurve(curves.gravity, time),
+  obstacleMix: Object.fromEntries(
+    OBSTACLE_TYPES.map(type => [type, sampleCurve(curves.obstacleMix[type], time)])
+  ) as Record<ObstacleType, number>,
+});
+
+// Tuned so every preset levels off instead of becoming impossible. The curves
+// are data so the leaderboard server can derive the same score limits from them.
+const DIFFICULTY_CURVES: Record<DifficultyPresetId, DifficultyCurves> = difficultyCurves;
+
+export const DIFFICULTY_PRESETS: Record<DifficultyPresetId, DifficultyPreset> = {
+  easy: {
+    id: 'easy',
+    name: 'Easy',
+    emoji: '🌱',
+    description: 'Lighter gravity, slower obstacles and no defenders at first',
+    curves: DIFFICULTY_CURVES.easy,
+  },
+  normal: {
+    id: 'normal',
+    name: 'Normal',
+    emoji: '⚽',
+    description: 'The classic game',
+    curves: DIFFICULTY_CURVES.normal,
+  },
+  hard: {
+    id: 'hard',
+    name: 'Hard',
+    emoji: '🔥',
+    description: 'Fast from the start, heavier over time and full of defenders',
+    curves: DIFFICULTY_CURVES.hard,
+  },
+};
+
+export const DIFFICULTY_PRESET_IDS = Object.keys(DIFFICULTY_PRESETS) as DifficultyPresetId[];
@@ -0,0 +1,72 @@
+import { Achievement, RunStats, SimulationState } from '../types/game';
+
+// Events the engine emits, keyed by name with their payloads
+export interface EngineEvents {
+  runStarted: { seed: number; levelId: string | null; challengeDate: string | null };
+  juggle: { taps: number };
+  coinCollected: { coins: number; bigCoin: boolean };
+  nearMiss: { count: number };
+  obstacleHit: { shielded: boolean };
+  groundHit: Record<string, never>;
+  runEnded: { stats: RunStats; isComplete: boolean }; // a finished run; quitting from the pause menu isn't one
+  achievementUnlocked: { achievement: Achievement };
+}
+
+export type EventListener<Payload> = (payload: Payload) => void;
+
+export interface EventEmitter<Events> {
+  on: <Name extends keyof Events>(name: Name, listener: EventListener<Events[Name]>) => () => void; // returns an unsubscribe function
+  emit: <Name extends keyof Events>(name: Name, payload: Events[Name]) => void;
+}
+
+// Listeners run synchronously in the order they subscribed. A listener that
+// throws is logged and skipped so it can't stop the others or the game loop.
+export const createEventEmitter = <Events>(): EventEmitter<Events> => {
+  const listeners = new Map<keyof Events, Set<EventListener<never>>>();
+
+  const on = <Name extends keyof Events>(name: Name, listener: EventListener<Events[Name]>) => {
+    const forName = listeners.get(name) ?? new Set();
+    forName.add(listener);
+    listeners.set(name, forName);
+    return () => {
+      forName.delete(listener);
+    };
+  };
+
+  const emit = <Name extends keyof Events>(name: Name, payload: Events[Name]) => {
+    listeners.get(name)?.forEach(listener => {
+      try {
+        (listener as EventListener<Events[Name]>)(payload);
+      } catch (error) {
+        console.log(`Error in ${String(name)} listener:`, error);
+      }
+    });
+  };
+
+  return { on, emit };
+};
+
+// Emits what happened between two consecutive simulation steps. Everything is
+// read off the stats, so the simulation itself stays free of side effects.
+export const emitStepEvents = (events: EventEmitter<EngineEvents>, previous: SimulationState, next: SimulationState) => {
+  const taps = next.stats.taps - previous.stats.taps;
+  if (taps > 0) events.emit('juggle', { taps });
+
+  const coins = next.stats.coinsCollected - previous.stats.coinsCollected;
+  if (coins > 0) {
+    events.emit('coinCollected', { coins, bigCoin: next.stats.bigCoinsCollected > previous.stats.bigCoinsCollected });
+  }
+
+  const nearMisses = next.stats.nearMisses - previous.stats.nearMisses;
+  if (nearMisses > 0) events.emit('nearMiss', { count: nearMisses });
+
+  // A hit that didn't end the run was absorbed by a shield; a run that ended
+  // without a hit or a completed goal ended on the ground
+  const isHit = next.stats.hits > previous.stats.hits;
+  if (isHit) events.emit('obstacleHit', { shielded: !next.isOver });
+
+  if (next.isOver && !previous.isOver) {
+    if (!isHit && !next.isComplete) events.emit('groundHit', {});
+    events.emit('runEnded', { stats: next.stats, isComplete: next.isComplete });
+  }
+};
@@ -0,0 +1,145 @@
+import { DifficultyPresetId, LeaderboardEntry, LeaderboardWindow, Replay, RunRecord, RunScore, RunStats, ScoreSubmission } from '../types/game';
+import { getPoints } from './scoring';
+
+type Bests = Omit<LeaderboardEntry, 'id'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const scoreRun = (stats: RunStats, skin: string, timestamp: number): RunScore => ({
+  time: Math.floor(stats.duration),
+  coins: stats.coinsCollected,
+  points: getPoints(stats),
+  skin,
+  timestamp,
+});
+
+// A finished run as an entry of its own, ready to be merged into the player's bests
+export const createRunEntry = (
+  { time, coins, points, skin, timestamp }: RunScore,
+  owner: { playerId?: string; playerName: string; difficulty: DifficultyPresetId; challengeDate?: string },
+  replay?: Replay,
+): LeaderboardEntry => ({
+  id: timestamp.toString(),
+  ...owner,
+  bestTime: time,
+  bestCoins: coins,
+  bestPoints: points,
+  bestTimeTimestamp: timestamp,
+  bestCoinsTimestamp: timestamp,
+  bestPointsTimestamp: timestamp,
+  bestTimeSkin: skin,
+  bestCoinsSkin: skin,
+  bestPointsSkin: skin,
+  bestTimeReplay: replay,
+  bestCoinsReplay: replay,
+  bestPointsReplay: replay,
+});
+
+// When the window containing `now` began, in UTC; weeks start on Monday
+export const getWindowStart = (window: LeaderboardWindow, now: number) => {
+  if (window === 'allTime') return 0;
+
+  const date = new Date(now);
+  const today = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  if (window === 'today') return today;
+
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return today - daysSinceMonday * DAY_MS;
+};
+
+// When the window containing `now` rolls over to the next one
+export const getWindowEnd = (window: LeaderboardWindow, now: number) => {
+  if (window === 'allTime') return Infinity;
+  return getWindowStart(window, now) + (window === 'today' ? DAY_MS : 7 * DAY_MS);
+};
+
+// Only this week's runs are needed for the windowed boards; older ones are
+// already part of the all-time entries
+export const pruneRunHistory = (runs: RunRecord[], now: number) => {
+  const weekStart = getWindowStart('week', now);
+  return runs.filter(run => run.timestamp >= weekStart);
+};
+
+// Adds a run, replacing an earlier record of the same run. A revived run is
+// scored again when it ends for good, under the timestamp it was first scored
+// with, and that replaces the record of the part before the revive.
+export const addRun = <T extends RunScore>(runs: T[], run: T, isSameRun = (a: T, b: T) => a.timestamp === b.timestamp) => [
+  ...runs.filter(other => !isSameRun(other, run)),
+  run,
+];
+
+// Each player's bests on a board from the runs inside the window
+export const getWindowEntries = (runs: RunRecord[], windowStart: number): LeaderboardEntry[] =>
+  runs
+    .filter(run => run.timestamp >= windowStart)
+    .reduce<LeaderboardEntry[]>((entries, { playerName, difficulty, challengeDate, ...score }) =>
+      recordRun(entries, createRunEntry(score, { playerName, difficulty, challengeDate })).leaderboard, []);
+
+export const isSameBoard = (
+  a: Pick<LeaderboardEntry, 'difficulty' | 'challengeDate'>,
+  b: Pick<LeaderboardEntry, 'difficulty' | 'challengeDate'>,
+) => a.difficulty === b.difficulty && (a.challengeDate ?? null) === (b.challengeDate ?? null);
+
+// Conflict resolution for two records of the same player on the same board:
+// each category keeps the better score along with when, with which skin and
+// in which replay it was set. Ties keep the existing record; the name is
+// always the incoming one so renames carry over.
+export const mergeBests = <T extends Bests>(existing: T, incoming: T): T => {
+  const isBetterTime = incoming.bestTime > existing.bestTime;
+  const isBetterCoins = incoming.bestCoins > existing.bestCoins;
+  const isBetterPoints = incoming.bestPoints > existing.bestPoints;
+
+  return {
+    ...existing,
+    playerName: incoming.playerName,
+    playerId: existing.playerId ?? incoming.playerId,
+    bestTime: isBetterTime ? incoming.bestTime : existing.bestTime,
+    bestTimeTimestamp: isBetterTime ? incoming.bestTimeTimestamp : existing.bestTimeTimestamp,
+    bestTimeSkin: isBetterTime ? incoming.bestTimeSkin : existing.bestTimeSkin,
+    bestTimeReplay: isBetterTime ? incoming.bestTimeReplay : existing.bestTimeReplay,
+    bestCoins: isBetterCoins ? incoming.bestCoins : existing.bestCoins,
+    bestCoinsTimestamp: isBetterCoins ? incoming.bestCoinsTimestamp : existing.bestCoinsTimestamp,
+    bestCoinsSkin: isBetterCoins ? incoming.bestCoinsSkin : existing.bestCoinsSkin,
+    bestCoinsReplay: isBetterCoins ? incoming.bestCoinsReplay : existing.bestCoinsReplay,
+    bestPoints: isBetterPoints ? incoming.bestPoints : existing.bestPoints,
+    bestPointsTimestamp: isBetterPoints ? incoming.bestPointsTimestamp : existing.bestPointsTimestamp,
+    bestPointsSkin: isBetterPoints ? incoming.bestPointsSkin : existing.bestPointsSkin,
+    bestPointsReplay: isBetterPoints ? incoming.bestPointsReplay : existing.bestPointsReplay,
+    ...(incoming.isUnverified ? { isUnverified: true } : {}),
+  };
+};
+
+// Adds a run to the board, merging it into the player's existing entry there if
+// there is one. Returns the updated board and the player's resulting entry.
+export const recordRun = (leaderboard: LeaderboardEntry[], run: LeaderboardEntry) => {
+  const index = leaderboard.findIndex(entry => entry.playerName === run.playerName && isSameBoard(entry, run));
+  if (index < 0) {
+    return { leaderboard: [...leaderboard, run], entry: run };
+  }
+
+  const entry = mergeBests(leaderboard[index], run);
+  return { leaderboard: leaderboard.map((existing, i) => (i === index ? entry : existing)), entry };
+};
+
+export const toScoreSubmission = (entry: LeaderboardEntry, playerId: string, runs: RunScore[] = []): ScoreSubmission => {
+  const { id, bestTimeReplay, bestCoinsReplay, bestPointsReplay, isUnverified, ...bests } = entry;
+  return { ...bests, playerId, runs };
+};
+
+// Queues a submission, folding it into one already waiting for the same
+// board so the queue holds at most one submission per board
+export const queueSubmission = (pending: ScoreSubmission[], submission: ScoreSubmission): ScoreSubmission[] => {
+  const index = pending.findIndex(queued => isSameBoard(queued, submission));
+  if (index < 0) return [...pending, submission];
+  return pending.map((queued, i) =>
+    i === index
+      ? { ...mergeBests(queued, submission), runs: (submission.runs ?? []).reduce((runs, run) => addRun(runs, run), queued.runs ?? []) }
+      : queued
+  );
+};
+
+// Where the player stands among a board's entries (1-based), or null if they aren't on it
+export const getRank = (entries: LeaderboardEntry[], isPlayer: (entry: LeaderboardEntry) => boolean) => {
+  const index = entries.findIndex(isPlayer);
+  return index < 0 ? null : index + 1;
+};
@@ -0,0 +1,135 @@
+import { LevelCoin, LevelDefinition, LevelGoal, LevelWave, RunStats } from '../types/game';
+
+// Coins awarded for each star the first time it's earned on a level
+export const LEVEL_STAR_REWARD = 10;
+
+// A row of coins entering one after another at the same height
+const coinTrail = (time: number, side: LevelCoin['side'], y: number, count: number, value = 1): LevelWave[] =>
+  Array.from({ length: count }, (_, i) => ({ time: time + i * 0.4, coins: [{ side, y, value }] }));
+
+// Waves may be authored in any order; the simulation expects them sorted by time
+const defineLevel = (level: LevelDefinition): LevelDefinition => ({
+  ...level,
+  waves: [...level.waves].sort((a, b) => a.time - b.time),
+});
+
+// Stage mode levels, played in order
+export const LEVELS: LevelDefinition[] = [
+  defineLevel({
+    id: 'warm_up',
+    name: 'Warm Up',
+    preset: 'easy',
+    goal: { kind: 'survive', seconds: 20 },
+    starCoins: [5, 10],
+    waves: [
+      ...coinTrail(1, 'left', 0.4, 4),
+      { time: 4, obstacles: [{ type: 'cone', side: 'right', y: 0.6 }] },
+      { time: 7, obstacles: [{ type: 'cone', side: 'left', y: 0.4 }] },
+      ...coinTrail(8, 'right', 0.5, 4),
+      { time: 11, obstacles: [{ type: 'cone', side: 'right', y: 0.3 }] },
+      { time: 13, obstacles: [{ type: 'cone', side: 'left', y: 0.7 }] },
+      ...coinTrail(14, 'left', 0.6, 4),
+      { time: 17, obstacles: [{ type: 'cone', side: 'right', y: 0.5 }, { type: 'cone', side: 'left', y: 0.3 }] },
+    ],
+  }),
+  defineLevel({
+    id: 'coin_run',
+    name: 'Coin Run',
+    preset: 'easy',
+    goal: { kind: 'collect', coins: 15 },
+    starCoins: [20, 25],
+    waves: [
+      ...coinTrail(1, 'left', 0.5, 5),
+      ...coinTrail(4, 'right', 0.35, 5),
+      { time: 6, obstacles: [{ type: 'cone', side: 'left', y: 0.7 }] },
+      ...coinTrail(8, 'left', 0.65, 5),
+      { time: 10, obstacles: [{ type: 'goalpost', side: 'right', y: 0.5 }] },
+      { time: 10, coins: [{ side: 'right', y: 0.5, value: 5 }] },
+      ...coinTrail(13, 'right', 0.45, 5),
+      { time: 16, obstacles: [{ type: 'cone', side: 'right', y: 0.4 }] },
+      ...coinTrail(17, 'left', 0.3, 5),
+      { time: 20, coins: [{ side: 'left', y: 0.5, value: 5 }] },
+    ],
+  }),
+  defineLevel({
+    id: 'goal_mouth',
+    name: 'Goal Mouth',
+    preset: 'normal',
+    goal: { kind: 'survive', seconds: 30 },
+    starCoins: [8, 15],
+    waves: [
+      { time: 2, obstacles: [{ type: 'goalpost', side: 'left', y: 0.5 }], coins: [{ side: 'left', y: 0.5, value: 1 }] },
+      { time: 6, obstacles: [{ type: 'goalpost', side: 'right', y: 0.35 }], coins: [{ side: 'right', y: 0.35, value: 1 }] },
+      { time: 10, obstacles: [{ type: 'goalpost', side: 'left', y: 0.65 }], coins: [{ side: 'left', y: 0.65, value: 1 }] },
+      ...coinTrail(12, 'right', 0.5, 3),
+      { time: 14, obstacles: [{ type: 'goalpost', side: 'right', y: 0.45 }, { type: 'cone', side: 'left', y: 0.2 }] },
+      { time: 18, obstacles: [{ type: 'goalpost', side: 'left', y: 0.55 }], coins: [{ side: 'left', y: 0.55, value: 5 }] },
+      { time: 22, obstacles: [{ type: 'goalpost', side: 'right', y: 0.4 }, { type: 'goalpost', side: 'left', y: 0.6 }] },
+      { time: 26, obstacles: [{ type: 'goalpost', side: 'left', y: 0.5 }], coins: [{ side: 'left', y: 0.5, value: 5 }] },
+    ],
+  }),
+  defineLevel({
+    id: 'man_marking',
+    name: 'Man Marking',
+    preset: 'normal',
+    goal: { kind: 'survive', seconds: 30 },
+    starCoins: [8, 15],
+    waves: [
+      { time: 2, obstacles: [{ type: 'defender', side: 'right', y: 0.5 }] },
+      ...coinTrail(4, 'left', 0.3, 4),
+      { time: 7, obstacles: [{ type: 'defender', side: 'left', y: 0.7 }] },
+      { time: 11, obstacles: [{ type: 'defender', side: 'right', y: 0.3 }, { type: 'cone', side: 'left', y: 0.6 }] },
+      ...coinTrail(13, 'right', 0.6, 4),
+      { time: 16, obstacles: [{ type: 'defender', side: 'left', y: 0.5 }, { type: 'defender', side: 'right', y: 0.5 }] },
+      { time: 20, coins: [{ side: 'left', y: 0.4, value: 5 }] },
+      { time: 22, obstacles: [{ type: 'defender', side: 'right', y: 0.4 }, { type: 'goalpost', side: 'left', y: 0.6 }] },
+      { time: 26, obstacles: [{ type: 'defender', side: 'left', y: 0.3 }, { type: 'defender', side: 'left', y: 0.7 }] },
+    ],
+  }),
+  defineLevel({
+    id: 'final_whistle',
+    name: 'Final Whistle',
+    preset: 'hard',
+    goal: { kind: 'survive', seconds: 45 },
+    starCoins: [10, 20],
+    waves: [
+      { time: 2, obstacles: [{ type: 'cone', side: 'left', y: 0.5 }, { type: 'cone', side: 'right', y: 0.4 }] },
+      ...coinTrail(4, 'right', 0.6, 5),
+      { time: 6, obstacles: [{ type: 'goalpost', side: 'left', y: 0.4 }] },
+      { time: 9, obstacles: [{ type: 'defender', side: 'right', y: 0.5 }, { type: 'cone', side: 'left', y: 0.7 }] },
+      { time: 13, obstacles: [{ type: 'goalpost', side: 'right', y: 0.6 }], coins: [{ side: 'right', y: 0.6, value: 5 }] },
+      ...coinTrail(15, 'left', 0.35, 5),
+      { time: 17, obstacles: [{ type: 'defender', side: 'left', y: 0.3 }, { type: 'defender', side: 'right', y: 0.7 }] },
+      { time: 21, obstacles: [{ type: 'goalpost', side: 'left', y: 0.5 }, { type: 'cone', side: 'right', y: 0.3 }] },
+      { time: 25, obstacles: [{ type: 'cone', side: 'left', y: 0.4 }, { type: 'cone', side: 'right', y: 0.6 }, { type: 'defender', side: 'left', y: 0.5 }] },
+      ...coinTrail(27, 'right', 0.5, 5),
+      { time: 30, obstacles: [{ type: 'goalpost', side: 'right', y: 0.45 }, { type: 'goalpost', side: 'left', y: 0.55 }] },
+      { time: 34, obstacles: [{ type: 'defender', side: 'right', y: 0.4 }, { type: 'cone', side: 'left', y: 0.6 }] },
+      { time: 38, obstacles: [{ type: 'goalpost', side: 'left', y: 0.5 }], coins: [{ side: 'left', y: 0.5, value: 5 }] },
+      { time: 41, obstacles: [{ type: 'defender', side: 'left', y: 0.3 }, { type: 'defender', side: 'right', y: 0.6 }] },
+    ],
+  }),
+];
+
+export const getLevel = (id: string | null) => LEVELS.find(level => level.id === id);
+
+export const isGoalReached = (goal: LevelGoal, stats: RunStats) =>
+  goal.kind === 'survive' ? stats.duration >= goal.seconds : stats.coinsCollected >= goal.coins;
+
+export const getGoalProgress = (goal: LevelGoal, stats: RunStats) =>
+  goal.kind === 'survive'
+    ? `⏱️ ${Math.min(Math.floor(stats.duration), goal.seconds)}/${goal.seconds}s`
+    : `🪙 ${Math.min(stats.coinsCollected, goal.coins)}/${goal.coins}`;
+
+export const describeGoal = (goal: LevelGoal) =>
+  goal.kind === 'survive' ? `Survive for ${goal.seconds} seconds` : `Collect ${goal.coins} coins`;
+
+// One star for reaching the goal, one more for each coin target
+export const getLevelStars = (level: LevelDefinition, stats: RunStats, isComplete: boolean) => {
+  if (!isComplete) return 0;
+  return 1 + level.starCoins.filter(coins => stats.coinsCollected >= coins).length;
+};
+
+// The first level is always open; every other one needs a star on the level before it
+export const isLevelUnlocked = (index: number, levelStars: Record<string, number>) =>
+  index === 0 || (levelStars[LEVELS[index - 1].id] ?? 0) > 0;
@@ -0,0 +1,53 @@
+// Fixed-timestep game loop driven by requestAnimationFrame. Real frame time
+// is accumulated and consumed in steps of exactly `stepSize` seconds, so the
+// simulation runs at the same speed on 30Hz, 60Hz and 120Hz displays.
+// `onFrame` receives how far (0-1) the leftover time is into the next step,
+// for interpolated rendering.
+export interface FixedStepLoop {
+  start: () => void;
+  stop: () => void;
+}
+
+// Cap on the time simulated per frame, so a long stall (app switch, blocking
+// alert) doesn't trigger a burst of catch-up steps
+const MAX_FRAME_TIME = 0.25;
+
+export const createFixedStepLoop = (
+  stepSize: number,
+  onStep: (dt: number) => void,
+  onFrame: (alpha: number) => void,
+): FixedStepLoop => {
+  let frameId: number | null = null;
+  let lastTime: number | null = null;
+  let accumulator = 0;
+
+  const frame = (time: number) => {
+    const frameTime = lastTime === null ? 0 : Math.min((time - lastTime) / 1000, MAX_FRAME_TIME);
+    lastTime = time;
+    accumulator += frameTime;
+
+    while (accumulator >= stepSize && frameId !== null) {
+      onStep(stepSize);
+      accumulator -= stepSize;
+    }
+
+    // onStep may have stopped the loop
+    if (frameId === null) return;
+
+    onFrame(accumulator / stepSize);
+    frameId = requestAnimationFrame(frame);
+  };
+
+  return {
+    start: () => {
+      if (frameId !== null) return;
+      lastTime = null;
+      accumulator = 0;
+      frameId = requestAnimationFrame(frame);
+    },
+    stop: () => {
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      frameId = null;
+    },
+  };
+};
@@ -0,0 +1,119 @@
+import { Ball, GameConfig, Obstacle, ObstacleType } from '../types/game';
+import { Rng } from './rng';
+
+// Everything an obstacle type needs to spawn. `speed` is the horizontal
+// speed in pixels per second for the current difficulty. `y` places an
+// authored obstacle; without it the lane is picked at random.
+export interface ObstacleSpawnContext {
+  config: GameConfig;
+  rng: Rng;
+  side: 'left' | 'right';
+  speed: number;
+  createId: () => string;
+  y?: number;
+}
+
+// `dt` is world time, so slow motion already slows obstacles down
+export interface ObstacleUpdateContext {
+  config: GameConfig;
+  ball: Ball;
+  dt: number;
+}
+
+// How one obstacle type looks, spawns and moves. Adding a type means adding
+// a row to OBSTACLE_BEHAVIOURS (and a hitbox in collision.ts); the
+// simulation loop only talks to this table.
+export interface ObstacleBehaviour {
+  color: string;
+  spawn: (context: ObstacleSpawnContext) => Obstacle[];
+  update: (obstacle: Obstacle, context: ObstacleUpdateContext) => Obstacle;
+}
+
+const CONE_SIZE = { width: 30, height: 40 };
+const CONE_BOUNCE_HEIGHT = 70;
+const CONE_BOUNCES_PER_SECOND = 1.2;
+const GOALPOST_SIZE = { width: 20, height: 120 };
+const GOALPOST_GAP = 150; // Room between a pair of posts, three ball widths
+const DEFENDER_SIZE = { width: 40, height: 60 };
+const DEFENDER_TRACKING = 1.5; // Fraction of the gap to the ball closed per second
+const DEFENDER_MAX_TRACKING_SPEED = 110;
+
+// The authored y, or a random one in the playable band away from the top and the ground
+const getLaneY = ({ config, rng, y }: ObstacleSpawnContext) => y ?? rng() * (config.screenHeight - 200) + 100;
+
+const createObstacle = (
+  type: ObstacleType,
+  size: { width: number; height: number },
+  y: number,
+  { config, side, speed, createId }: ObstacleSpawnContext,
+): Obstacle => ({
+  id: createId(),
+  position: { x: side === 'left' ? -50 : config.screenWidth + 50, y },
+  velocity: { x: side === 'left' ? speed : -speed, y: 0 },
+  type,
+  width: size.width,
+  height: size.height,
+  age: 0,
+  baseY: y,
+});
+
+const moveStraight = (obstacle: Obstacle, { dt }: ObstacleUpdateContext): Obstacle => ({
+  ...obstacle,
+  position: {
+    x: obstacle.position.x + obstacle.velocity.x * dt,
+    y: obstacle.position.y + obstacle.velocity.y * dt,
+  },
+  age: obstacle.age + dt,
+});
+
+// Cones hop along their lane: the path is a rectified sine above baseY
+const bounceAlong = (obstacle: Obstacle, { dt }: ObstacleUpdateContext): Obstacle => {
+  const age = obstacle.age + dt;
+  return {
+    ...obstacle,
+    position: {
+      x: obstacle.position.x + obstacle.velocity.x * dt,
+      y: obstacle.baseY - CONE_BOUNCE_HEIGHT * Math.abs(Math.sin(age * Math.PI * CONE_BOUNCES_PER_SECOND)),
+    },
+    age,
+  };
+};
+
+// Defenders close in on the ball's height, but no faster than a ball can dodge
+const trackBall = (obstacle: Obstacle, context: ObstacleUpdateContext): Obstacle => {
+  const gap = context.ball.position.y - obstacle.position.y;
+  const velocityY = Math.max(-DEFENDER_MAX_TRACKING_SPEED, Math.min(DEFENDER_MAX_TRACKING_SPEED, gap * DEFENDER_TRACKING));
+  return moveStraight({ ...obstacle, velocity: { ...obstacle.velocity, y: velocityY } }, context);
+};
+
+// Goalposts arrive in pairs, one above and one below a gap to fly through
+const spawnGoalposts = (context: ObstacleSpawnContext): Obstacle[] => {
+  const { config, rng, y } = context;
+  const gapY = y ?? rng() * (config.screenHeight - 200 - GOALPOST_GAP) + 100 + GOALPOST_GAP / 2;
+  const offset = GOALPOST_GAP / 2 + GOALPOST_SIZE.height / 2;
+
+  return [
+    createObstacle('goalpost', GOALPOST_SIZE, gapY - offset, context),
+    createObstacle('goalpost', GOALPOST_SIZE, gapY + offset, context),
+  ];
+};
+
+export const OBSTACLE_BEHAVIOURS: Record<ObstacleType, ObstacleBehaviour> = {
+  cone: {
+    color: '#FF6B35',
+    spawn: context => [createObstacle('cone', CONE_SIZE, getLaneY(context), context)],
+    update: bounceAlong,
+  },
+  goalpost: {
+    color: '#FFD23F',
+    spawn: spawnGoalposts,
+    update: moveStraight,
+  },
+  defender: {
+    color: '#FF4081',
+    spawn: context => [createObstacle('defender', DEFENDER_SIZE, getLaneY(context), context)],
+    update: trackBall,
+  },
+};
+
+export const OBSTACLE_TYPES = Object.keys(OBSTACLE_BEHAVIOURS) as ObstacleType[];
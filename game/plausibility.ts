@@ -0,0 +1,76 @@
+import { DifficultyCurve, DifficultyPresetId, LeaderboardEntry, RunScore } from '../types/game';
+import { DIFFICULTY_PRESETS } from './difficulty';
+import { COIN_POINTS, JUGGLE_POINTS, MAX_COMBO_MULTIPLIER, NEAR_MISS_POINTS, POINTS_PER_SECOND } from './scoring';
+import plausibility from './plausibility.json';
+
+// The limits are generous on purpose: a genuine run that trips one loses
+// its place on the leaderboard, so they only need to catch made-up scores.
+// server/leaderboardServer.js derives the same limits from the same data.
+//
+// - maxCoinValue: a big coin picked up during Double Coins
+// - coinSpawnAllowance, coinGraceSpawns: coins spawn at random, so a run can
+//   get ahead of the average rate; the grace covers short runs with a lucky burst
+// - maxJugglesPerSecond: faster than anyone can keep tapping, every juggle at
+//   the top multiplier
+// - maxSecondsAfterPeak: every preset levels off within a few minutes; nobody
+//   lasts this long once it has
+const { maxCoinValue, coinSpawnAllowance, coinGraceSpawns, maxJugglesPerSecond, maxSecondsAfterPeak } = plausibility;
+
+export interface RunLimits {
+  maxSeconds: number;
+  maxCoinsPerSecond: number;
+  coinGrace: number;
+  maxBonusPointsPerSecond: number; // from juggles and near misses
+}
+
+const getPeak = (curve: DifficultyCurve) => Math.max(...curve.map(point => point.value));
+const getPeakTime = (curve: DifficultyCurve) => Math.max(...curve.map(point => point.time));
+
+export const getRunLimits = (difficulty: DifficultyPresetId): RunLimits => {
+  const { curves } = DIFFICULTY_PRESETS[difficulty];
+  const peakTime = Math.max(
+    ...[curves.obstacleSpeed, curves.spawnRate, curves.coinRate, curves.gravity, ...Object.values(curves.obstacleMix)].map(getPeakTime),
+  );
+
+  return {
+    maxSeconds: peakTime + maxSecondsAfterPeak,
+    maxCoinsPerSecond: getPeak(curves.coinRate) * coinSpawnAllowance * maxCoinValue,
+    coinGrace: coinGraceSpawns * maxCoinValue,
+    maxBonusPointsPerSecond:
+      maxJugglesPerSecond * JUGGLE_POINTS * MAX_COMBO_MULTIPLIER + getPeak(curves.spawnRate) * NEAR_MISS_POINTS,
+  };
+};
+
+// Scored times are whole seconds rounded down, so a run lasted up to a second longer
+const getMaxCoins = (limits: RunLimits, time: number) => limits.maxCoinsPerSecond * (time + 1) + limits.coinGrace;
+
+const getMaxPoints = (limits: RunLimits, time: number, coins: number) =>
+  time * POINTS_PER_SECOND + coins * COIN_POINTS + limits.maxBonusPointsPerSecond * (time + 1);
+
+// Why a run can't have happened, or null when it could have
+export const checkRun = ({ time, coins, points }: Pick<RunScore, 'time' | 'coins' | 'points'>, difficulty: DifficultyPresetId) => {
+  const limits = getRunLimits(difficulty);
+  if (time < 0 || coins < 0) return 'Negative time or coins';
+  if (time > limits.maxSeconds) return `Survived ${time}s, more than ${limits.maxSeconds}s`;
+  if (coins > getMaxCoins(limits, time)) return `Collected ${coins} coins in ${time}s`;
+
+  // Time and coins always score, so points can't be below what they're worth
+  if (points < time * POINTS_PER_SECOND + coins * COIN_POINTS) {
+    return `Scored ${points} points, less than ${time}s and ${coins} coins are worth`;
+  }
+  if (points > getMaxPoints(limits, time, coins)) return `Scored ${points} points in ${time}s`;
+  return null;
+};
+
+// An entry's bests can come from different runs, none of which lasted longer
+// than the best time
+export const checkEntry = ({ difficulty, bestTime, bestCoins, bestPoints }: Pick<LeaderboardEntry, 'difficulty' | 'bestTime' | 'bestCoins' | 'bestPoints'>) => {
+  const limits = getRunLimits(difficulty);
+  if (bestTime < 0 || bestCoins < 0 || bestPoints < 0) return 'Negative scores';
+  if (bestTime > limits.maxSeconds) return `Survived ${bestTime}s, more than ${limits.maxSeconds}s`;
+
+  const maxCoins = getMaxCoins(limits, bestTime);
+  if (bestCoins > maxCoins) return `Collected ${bestCoins} coins with a best time of ${bestTime}s`;
+  if (bestPoints > getMaxPoints(limits, bestTime, maxCoins)) return `Scored ${bestPoints} points with a best time of ${bestTime}s`;
+  return null;
+};
@@ -0,0 +1,49 @@
+export const MAX_PLAYER_NAME_LENGTH = 16;
+
+const PLAYER_NAME_PATTERN = /^[\p{L}\p{N} _.-]+$/u;
+
+// Player ids double as friend codes, so they avoid characters that are easy
+// to misread (0/O, 1/I/L)
+const PLAYER_ID_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const PLAYER_ID_LENGTH = 8;
+const PLAYER_ID_PATTERN = new RegExp(`^[${PLAYER_ID_ALPHABET}]{${PLAYER_ID_LENGTH}}$`);
+
+export const createPlayerId = () =>
+  Array.from({ length: PLAYER_ID_LENGTH }, () => PLAYER_ID_ALPHABET[Math.floor(Math.random() * PLAYER_ID_ALPHABET.length)]).join('');
+
+export const isPlayerId = (value: unknown): value is string => typeof value === 'string' && PLAYER_ID_PATTERN.test(value);
+
+// Friend codes are typed by hand, so case and stray spaces are forgiven
+export const normalizeFriendCode = (code: string) => code.replace(/\s+/g, '').toUpperCase();
+
+// Returns why a friend code can't be added, or null if it can
+export const validateFriendCode = (code: string, playerId: string, friendIds: string[]): string | null => {
+  if (!isPlayerId(code)) return `Friend codes are ${PLAYER_ID_LENGTH} letters and numbers`;
+  if (code === playerId) return "That's your own code";
+  if (friendIds.includes(code)) return 'That friend is already added';
+  return null;
+};
+
+// Collapses runs of whitespace and trims the ends
+export const normalizePlayerName = (name: string) => name.replace(/\s+/g, ' ').trim();
+
+// Returns why a name can't be used, or null if it can. Names already in use
+// (on the leaderboard or by another profile) belong to someone else and
+// can't be taken over.
+export const validatePlayerName = (name: string, currentName: string, namesInUse: string[]): string | null => {
+  if (name.length === 0) return 'Enter a name';
+  if (name.length > MAX_PLAYER_NAME_LENGTH) return `Names can be at most ${MAX_PLAYER_NAME_LENGTH} characters`;
+  if (!PLAYER_NAME_PATTERN.test(name)) return 'Use letters, numbers, spaces and . _ - only';
+  const isTaken = namesInUse.some(
+    nameInUse => nameInUse !== currentName && nameInUse.toLowerCase() === name.toLowerCase()
+  );
+  if (isTaken) {
+    return 'That name is already taken';
+  }
+  return null;
+};
+
+// The player's entries (or runs) on every board move to the new name, so
+// renaming never leaves a duplicate behind
+export const renamePlayerEntries = <T extends { playerName: string }>(entries: T[], currentName: string, name: string): T[] =>
+  entries.map(entry => (entry.playerName === currentName ? { ...entry, playerName: name } : entry));
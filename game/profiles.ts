@@ -0,0 +1,95 @@
+import { ProfileData, ProfileField, SaveData } from '../types/game';
+import { renamePlayerEntries } from './player';
+
+// Listed as an object so adding a field to ProfileField without adding it
+// here is a type error
+const PROFILE_FIELDS = Object.keys({
+  difficulty: true,
+  highScores: true,
+  collectedCoins: true,
+  coinLedger: true,
+  powerUpInventory: true,
+  levelStars: true,
+  dailyChallengeDate: true,
+  unlockedSkins: true,
+  selectedSkin: true,
+  playerName: true,
+  playerId: true,
+  friendIds: true,
+  pendingScores: true,
+  dailyRewards: true,
+  lastLoginDate: true,
+  currentStreak: true,
+  achievements: true,
+  totalGamesPlayed: true,
+} satisfies Record<ProfileField, true>) as ProfileField[];
+
+// The active profile's part of a save
+export const getProfileData = (save: ProfileData): ProfileData =>
+  Object.fromEntries(PROFILE_FIELDS.map(field => [field, save[field]])) as ProfileData;
+
+// Every profile on the device, the active one first
+export const getAllProfiles = (save: ProfileData & Pick<SaveData, 'profiles'>): ProfileData[] => [
+  getProfileData(save),
+  ...save.profiles,
+];
+
+// Names are unique across profiles and the device leaderboard, so entries
+// on the leaderboard can't be confused with each other
+export const getNamesInUse = (save: SaveData) => [
+  ...getAllProfiles(save).map(profile => profile.playerName),
+  ...save.leaderboard.map(entry => entry.playerName),
+];
+
+// The chosen profile takes over the top of the save and the active one is
+// stored in its place
+export const switchProfile = (save: SaveData, profileId: string): SaveData => {
+  const target = save.profiles.find(profile => profile.playerId === profileId);
+  if (!target) return save;
+
+  return {
+    ...save,
+    ...target,
+    profiles: save.profiles.map(profile => (profile === target ? getProfileData(save) : profile)),
+  };
+};
+
+// Changes one profile, whether it's the active one or stored
+export const updateProfile = (save: SaveData, profileId: string, changes: Partial<ProfileData>): SaveData =>
+  profileId === save.playerId
+    ? { ...save, ...changes }
+    : { ...save, profiles: save.profiles.map(profile => (profile.playerId === profileId ? { ...profile, ...changes } : profile)) };
+
+export const addProfile = (save: SaveData, profile: ProfileData): SaveData => ({
+  ...save,
+  profiles: [...save.profiles, profile],
+});
+
+// Renames a profile along with its entries and runs on the device leaderboard
+export const renameProfile = (save: SaveData, profileId: string, name: string): SaveData => {
+  const profile = getAllProfiles(save).find(candidate => candidate.playerId === profileId);
+  if (!profile) return save;
+
+  const renamed = {
+    ...save,
+    leaderboard: renamePlayerEntries(save.leaderboard, profile.playerName, name),
+    runHistory: renamePlayerEntries(save.runHistory, profile.playerName, name),
+  };
+  return profileId === save.playerId
+    ? { ...renamed, playerName: name }
+    : { ...renamed, profiles: save.profiles.map(other => (other === profile ? { ...other, playerName: name } : other)) };
+};
+
+// Removes an inactive profile and its scores on the device leaderboard. The
+// active profile can't be deleted; switch to another one first.
+export const deleteProfile = (save: SaveData, profileId: string): SaveData => {
+  const profile = save.profiles.find(candidate => candidate.playerId === profileId);
+  if (!profile) return save;
+
+  return {
+    ...save,
+    profiles: save.profiles.filter(other => other !== profile),
+    leaderboard: save.leaderboard.filter(entry => entry.playerName !== profile.playerName),
+    runHistory: save.runHistory.filter(run => run.playerName !== profile.playerName),
+  };
+};
@@ -0,0 +1,95 @@
+import { GameConfig, PowerUpType, Replay, SimulationInput, SimulationState } from '../types/game';
+import { createRng, Rng } from './rng';
+import { createSimulation, FIXED_TIMESTEP, reviveSimulation, SIMULATION_VERSION, step } from './simulation';
+
+export const createReplay = (
+  seed: number,
+  config: GameConfig,
+  skin: string,
+  startingPowerUps: PowerUpType[],
+  recordedAt: number,
+): Replay => ({
+  seed,
+  config,
+  skin,
+  startingPowerUps,
+  inputs: [],
+  kicks: [],
+  revives: [],
+  simulationVersion: SIMULATION_VERSION,
+  totalSteps: 0,
+  recordedAt,
+});
+
+// Record the taps and kicks applied on the step about to be simulated
+export const recordStep = (replay: Replay, { taps, kicks }: SimulationInput): Replay => ({
+  ...replay,
+  inputs: taps.length > 0
+    ? [...replay.inputs, ...taps.map(tap => ({ step: replay.totalSteps, x: tap.x, y: tap.y }))]
+    : replay.inputs,
+  kicks: kicks.length > 0
+    ? [...(replay.kicks ?? []), ...kicks.map(kick => ({ step: replay.totalSteps, angle: kick.angle, strength: kick.strength }))]
+    : replay.kicks,
+  totalSteps: replay.totalSteps + 1,
+});
+
+export const recordRevive = (replay: Replay): Replay => ({
+  ...replay,
+  revives: [...replay.revives, replay.totalSteps],
+});
+
+// Replays only play back correctly on the simulation they were recorded with
+export const canPlayReplay = (replay: Replay) => replay.simulationVersion === SIMULATION_VERSION;
+
+export interface ReplayPlayback {
+  replay: Replay;
+  simulation: SimulationState;
+  stepIndex: number;
+  rng: Rng;
+  finished: boolean;
+}
+
+export const startPlayback = (replay: Replay): ReplayPlayback => ({
+  replay,
+  simulation: createSimulation(replay.config, replay.startingPowerUps),
+  stepIndex: 0,
+  rng: createRng(replay.seed),
+  finished: false,
+});
+
+// Re-run one recorded step: revive if the run was continued here, then apply
+// the taps and kicks recorded for this step
+export const advancePlayback = (playback: ReplayPlayback): ReplayPlayback => {
+  const { replay } = playback;
+  if (playback.finished) return playback;
+  if (playback.stepIndex >= replay.totalSteps) {
+    return { ...playback, finished: true };
+  }
+
+  let simulation = playback.simulation;
+  if (simulation.isOver && replay.revives.includes(playback.stepIndex)) {
+    simulation = reviveSimulation(simulation);
+  }
+
+  const taps = replay.inputs
+    .filter(input => input.step === playback.stepIndex)
+    .map(input => ({ x: input.x, y: input.y }));
+  const kicks = (replay.kicks ?? [])
+    .filter(kick => kick.step === playback.stepIndex)
+    .map(kick => ({ angle: kick.angle, strength: kick.strength }));
+
+  return {
+    ...playback,
+    simulation: step(simulation, { taps, kicks }, FIXED_TIMESTEP, playback.rng),
+    stepIndex: playback.stepIndex + 1,
+  };
+};
+
+// Headless playback to the end of the run, e.g. to verify a disputed score
+export const simulateReplay = (replay: Replay): SimulationState => {
+  let playback = startPlayback(replay);
+  while (!playback.finished) {
+    playback = advancePlayback(playback);
+  }
+  return playback.simulation;
+};
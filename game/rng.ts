@@ -0,0 +1,29 @@
+// Seedable pseudo-random number generator (mulberry32). Every random decision
+// the simulation makes goes through one of these so a run can be reproduced
+// from its seed alone.
+export type Rng = () => number;
+
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fresh seed for a new run (the only non-deterministic call in the game core)
+export const createSeed = (): number => Math.floor(Math.random() * 0xffffffff);
+
+// Seed derived from text (FNV-1a), so everyone who uses the same text gets the same run
+export const createSeedFromString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
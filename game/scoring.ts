@@ -0,0 +1,39 @@
+import { GameConfig, RunStats } from '../types/game';
+import scoring from './scoring.json';
+
+// Juggles made while the ball is inside this band (fractions of the screen
+// height from the top) build a combo; one made outside it starts over
+export const COMBO_BAND = { top: 0.2, bottom: 0.55 };
+
+// The point values are data so the leaderboard server can check scores with them
+export const JUGGLE_POINTS = scoring.jugglePoints;
+const JUGGLES_PER_MULTIPLIER = scoring.jugglesPerMultiplier;
+export const MAX_COMBO_MULTIPLIER = scoring.maxComboMultiplier;
+export const NEAR_MISS_POINTS = scoring.nearMissPoints;
+export const COIN_POINTS = scoring.coinPoints;
+export const POINTS_PER_SECOND = scoring.pointsPerSecond;
+
+export const isInComboBand = (y: number, config: GameConfig) =>
+  y >= config.screenHeight * COMBO_BAND.top && y <= config.screenHeight * COMBO_BAND.bottom;
+
+// x1 for the first few juggles of a combo, one more for every five after that
+export const getComboMultiplier = (combo: number) =>
+  Math.min(MAX_COMBO_MULTIPLIER, 1 + Math.floor(combo / JUGGLES_PER_MULTIPLIER));
+
+// Scores one juggle made with the ball at height `y`
+export const scoreJuggle = (stats: RunStats, y: number, config: GameConfig): RunStats => {
+  const combo = isInComboBand(y, config) ? stats.combo + 1 : 0;
+  return {
+    ...stats,
+    combo,
+    bestCombo: Math.max(stats.bestCombo, combo),
+    jugglePoints: stats.jugglePoints + JUGGLE_POINTS * getComboMultiplier(combo),
+  };
+};
+
+// The composite score: juggles (scaled by combo), near misses, coins and time survived
+export const getPoints = (stats: RunStats) =>
+  stats.jugglePoints +
+  stats.nearMisses * NEAR_MISS_POINTS +
+  stats.coinsCollected * COIN_POINTS +
+  Math.floor(stats.duration) * POINTS_PER_SECOND;
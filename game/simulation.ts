@@ -0,0 +1,418 @@
+import { Ball, Coin, Difficulty, GameConfig, LevelWave, Obstacle, ObstacleType, PowerUp, PowerUpType, Kick, RunStats, SimulationInput, SimulationState, Vector2 } from '../types/game';
+import { Rng } from './rng';
+import { circleIntersectsHitbox, getCoinHitbox, getObstacleHitbox, getPowerUpHitbox } from './collision';
+import { POWER_UP_TYPES, POWER_UPS } from './catalog';
+import { OBSTACLE_BEHAVIOURS, OBSTACLE_TYPES } from './obstacles';
+import { sampleCurve, sampleDifficulty } from './difficulty';
+import { isGoalReached } from './levels';
+import { scoreJuggle } from './scoring';
+
+// Bump whenever step() changes behaviour, so replays recorded against an
+// older simulation aren't played back wrongly
+export const SIMULATION_VERSION = 5;
+
+// The game loop always advances the simulation in steps of this many seconds
+export const FIXED_TIMESTEP = 1 / 60;
+
+// All speeds are in pixels per second and all rates are per second
+const FRICTION_X = 0.046; // Fraction of horizontal velocity left after one second
+const FRICTION_Y = 0.547; // Fraction of vertical velocity left after one second
+const KICK_VELOCITY_Y = -300; // Negative because Y decreases upward
+const KICK_VELOCITY_X = 120;
+const MAX_VELOCITY_X = 240;
+const MAX_VELOCITY_Y = 480;
+const REVIVE_VELOCITY_Y = -180;
+const MIN_KICK_SPEED = 200; // a swipe of strength 0
+const MAX_KICK_SPEED = 360; // a swipe of strength 1; power kicks go past it
+export const MAX_KICK_ANGLE = Math.PI / 3; // kicks always go upwards, at most this far from vertical
+export const MAX_KICK_STRENGTH = 1.5; // a fully charged power kick
+const NEAR_MISS_DISTANCE = 20; // Gap between ball and obstacle that counts as a near miss
+const POWER_UP_SPAWN_RATE = 0.05;
+const POWER_UP_SPEED = 70;
+const MAGNET_RANGE = 160;
+const MAGNET_SPEED = 320;
+const SLOW_MOTION_FACTOR = 0.5;
+
+// Difficulty after power-ups: slow motion scales down both the speed and the spawn rate
+export const getEffectiveDifficulty = (state: SimulationState): Difficulty => {
+  const difficulty = sampleDifficulty(state.config.curves, state.stats.duration);
+  const worldSpeed = getWorldSpeed(state);
+  return {
+    ...difficulty,
+    obstacleSpeed: difficulty.obstacleSpeed * worldSpeed,
+    spawnRate: difficulty.spawnRate * worldSpeed,
+  };
+};
+
+// How fast the world moves compared to the start of the run, for the HUD
+export const getSpeedMultiplier = (state: SimulationState) =>
+  getEffectiveDifficulty(state).obstacleSpeed / sampleCurve(state.config.curves.obstacleSpeed, 0);
+
+// How fast obstacles, coins and power-ups move relative to normal
+const getWorldSpeed = (state: SimulationState) => (state.activePowerUps.slowMotion > 0 ? SLOW_MOTION_FACTOR : 1);
+
+const createActivePowerUps = (starting: PowerUpType[]): Record<PowerUpType, number> =>
+  Object.fromEntries(
+    POWER_UP_TYPES.map(type => [type, starting.includes(type) ? POWER_UPS[type].duration : 0])
+  ) as Record<PowerUpType, number>;
+
+export const createBall = (config: GameConfig, velocity: Vector2 = { x: 0, y: 0 }): Ball => ({
+  position: { x: config.screenWidth / 2, y: config.screenHeight / 2 },
+  velocity: { ...velocity },
+  radius: config.ballRadius,
+});
+
+export const createRunStats = (): RunStats => ({
+  duration: 0,
+  coinsCollected: 0,
+  bigCoinsCollected: 0,
+  nearMisses: 0,
+  taps: 0,
+  hits: 0,
+  combo: 0,
+  bestCombo: 0,
+  jugglePoints: 0,
+});
+
+export const createSimulation = (config: GameConfig, startingPowerUps: PowerUpType[] = []): SimulationState => ({
+  config,
+  ball: createBall(config),
+  obstacles: [],
+  coins: [],
+  powerUps: [],
+  activePowerUps: createActivePowerUps(startingPowerUps),
+  stats: createRunStats(),
+  nextEntityId: 0,
+  nextWave: 0,
+  isOver: false,
+  isComplete: false,
+});
+
+// Continue a finished run from the middle of the screen with a small upward boost
+export const reviveSimulation = (state: SimulationState): SimulationState => ({
+  ...state,
+  ball: createBall(state.config, { x: 0, y: REVIVE_VELOCITY_Y }),
+  stats: { ...state.stats, combo: 0 },
+  isOver: false,
+});
+
+// A tap always kicks the ball up (Flappy Bird style) and nudges it toward the tapped side;
+// `sensitivity` scales how hard it's nudged sideways
+export const applyTap = (ball: Ball, tap: Vector2, sensitivity = 1): Ball => {
+  // Determine horizontal direction based on tap position relative to ball
+  const deltaX = tap.x - ball.position.x;
+  const kickX = KICK_VELOCITY_X * sensitivity;
+  const horizontalForce = deltaX > 0 ? kickX : deltaX < 0 ? -kickX : 0;
+
+  // Apply forces considering current velocity
+  const newVelX = ball.velocity.x * 0.7 + horizontalForce;
+  const newVelY = KICK_VELOCITY_Y; // Always override Y velocity for consistent "flap"
+
+  // Cap maximum velocity
+  return {
+    ...ball,
+    velocity: {
+      x: Math.max(-MAX_VELOCITY_X, Math.min(MAX_VELOCITY_X, newVelX)),
+      y: Math.max(-MAX_VELOCITY_Y, Math.min(MAX_VELOCITY_Y, newVelY)),
+    },
+  };
+};
+
+// A kick from the gesture controls sets the ball's velocity outright: the angle
+// aims it and the strength sets its speed. Sensitivity scales the sideways part.
+export const applyKick = (ball: Ball, kick: Kick, sensitivity = 1): Ball => {
+  const angle = Math.max(-MAX_KICK_ANGLE, Math.min(MAX_KICK_ANGLE, kick.angle));
+  const strength = Math.max(0, Math.min(MAX_KICK_STRENGTH, kick.strength));
+  const speed = MIN_KICK_SPEED + (MAX_KICK_SPEED - MIN_KICK_SPEED) * strength;
+
+  return {
+    ...ball,
+    velocity: {
+      x: Math.max(-MAX_VELOCITY_X, Math.min(MAX_VELOCITY_X, Math.sin(angle) * speed * sensitivity)),
+      y: Math.max(-MAX_VELOCITY_Y, Math.min(MAX_VELOCITY_Y, -Math.cos(angle) * speed)),
+    },
+  };
+};
+
+// Weighted pick from the obstacle mix; falls back to the first type if every weight is zero
+const pickObstacleType = (mix: Record<ObstacleType, number>, rng: Rng): ObstacleType => {
+  const total = OBSTACLE_TYPES.reduce((sum, type) => sum + Math.max(0, mix[type]), 0);
+  let roll = rng() * total;
+
+  for (const type of OBSTACLE_TYPES) {
+    roll -= Math.max(0, mix[type]);
+    if (roll < 0) return type;
+  }
+  return OBSTACLE_TYPES[0];
+};
+
+// Coins drift along with the obstacles
+const createCoin = (id: string, side: 'left' | 'right', y: number, value: number, speed: number, config: GameConfig): Coin => ({
+  id,
+  position: { x: side === 'left' ? -30 : config.screenWidth + 30, y },
+  velocity: { x: side === 'left' ? speed : -speed, y: 0 },
+  radius: 15,
+  value,
+});
+
+// Level waves whose time has come, and the index of the first one still to spawn
+const takeDueWaves = (config: GameConfig, nextWave: number, time: number): { waves: LevelWave[]; nextWave: number } => {
+  const waves = config.level?.waves ?? [];
+  let end = nextWave;
+  while (end < waves.length && waves[end].time <= time) end++;
+  return { waves: waves.slice(nextWave, end), nextWave: end };
+};
+
+// Probability that an event happening `ratePerSecond` times a second on
+// average happens at least once in `dt` seconds
+const chanceOver = (ratePerSecond: number, dt: number) => 1 - Math.exp(-ratePerSecond * dt);
+
+const isOnScreen = (position: Vector2, config: GameConfig) =>
+  position.x > -100 &&
+  position.x < config.screenWidth + 100 &&
+  position.y > -100 &&
+  position.y < config.screenHeight + 100;
+
+// Advance the simulation by `dt` seconds. Pure: the input state is never
+// mutated and all randomness comes from `rng`, so the same seed and inputs
+// always produce the same run.
+export const step = (state: SimulationState, input: SimulationInput, dt: number, rng: Rng): SimulationState => {
+  if (state.isOver) return state;
+
+  const { config } = state;
+  let { nextEntityId } = state;
+  // Every tap or kick is a juggle, scored by where the ball was when it was kicked
+  const juggles = [...input.taps, ...input.kicks];
+  const stats = juggles.reduce(
+    current => scoreJuggle(current, state.ball.position.y, config),
+    { ...state.stats, taps: state.stats.taps + juggles.length },
+  );
+  let isOver = false;
+
+  // Sample the difficulty curves for this tick. New obstacles and coins get
+  // their full speed; slow motion is applied when they move.
+  const difficulty = sampleDifficulty(config.curves, state.stats.duration);
+  const { spawnRate } = getEffectiveDifficulty(state);
+  const worldSpeed = getWorldSpeed(state);
+  const worldDt = dt * worldSpeed;
+  const activePowerUps = { ...state.activePowerUps };
+
+  let ball = input.taps.reduce((current, tap) => applyTap(current, tap, config.controlSensitivity), state.ball);
+  ball = input.kicks.reduce((current, kick) => applyKick(current, kick, config.controlSensitivity), ball);
+
+  // Apply gravity, move, then apply friction
+  let velX = ball.velocity.x;
+  let velY = ball.velocity.y + difficulty.gravity * dt;
+  let posX = ball.position.x + velX * dt;
+  const posY = ball.position.y + velY * dt;
+  velX *= Math.pow(FRICTION_X, dt);
+  velY *= Math.pow(FRICTION_Y, dt);
+
+  // Boundary checks
+  if (posX <= config.ballRadius) {
+    posX = config.ballRadius;
+    velX = Math.abs(velX) * 0.7;
+  }
+  if (posX >= config.screenWidth - config.ballRadius) {
+    posX = config.screenWidth - config.ballRadius;
+    velX = -Math.abs(velX) * 0.7;
+  }
+
+  ball = { ...ball, position: { x: posX, y: posY }, velocity: { x: velX, y: velY } };
+
+  // Ground collision (game over)
+  if (ball.position.y >= config.screenHeight - config.ballRadius) {
+    isOver = true;
+  }
+
+  // Update obstacles; each type moves according to its own behaviour
+  let obstacles = state.obstacles
+    .map(obstacle => OBSTACLE_BEHAVIOURS[obstacle.type].update(obstacle, { config, ball, dt: worldDt }))
+    .filter(obstacle => isOnScreen(obstacle.position, config));
+
+  // In stage mode only the level's authored waves spawn; positions are
+  // stored as fractions of the screen height
+  const dueWaves = takeDueWaves(config, state.nextWave, state.stats.duration);
+  const createObstacleId = () => `obstacle_${nextEntityId++}`;
+
+  if (config.level) {
+    dueWaves.waves.forEach(wave => wave.obstacles?.forEach(obstacle => {
+      obstacles.push(...OBSTACLE_BEHAVIOURS[obstacle.type].spawn({
+        config,
+        rng,
+        side: obstacle.side,
+        speed: difficulty.obstacleSpeed,
+        createId: createObstacleId,
+        y: obstacle.y * config.screenHeight,
+      }));
+    }));
+  } else if (rng() < chanceOver(spawnRate, dt)) {
+    // Spawn new obstacles with dynamic difficulty
+    const side = rng() < 0.5 ? 'left' : 'right';
+    const obstacleType = pickObstacleType(difficulty.obstacleMix, rng);
+
+    obstacles.push(...OBSTACLE_BEHAVIOURS[obstacleType].spawn({
+      config,
+      rng,
+      side,
+      speed: difficulty.obstacleSpeed,
+      createId: createObstacleId,
+    }));
+  }
+
+  // Check collisions against each obstacle's own shape; a shield absorbs
+  // one hit and knocks that obstacle away
+  const hitObstacle = obstacles.find(obstacle => circleIntersectsHitbox(ball.position, ball.radius, getObstacleHitbox(obstacle)));
+  if (hitObstacle) {
+    stats.hits += 1;
+    stats.combo = 0;
+    if (activePowerUps.shield > 0) {
+      activePowerUps.shield = 0;
+      obstacles = obstacles.filter(obstacle => obstacle !== hitObstacle);
+    } else {
+      isOver = true;
+    }
+  }
+
+  // A near miss is counted when the ball leaves an obstacle's near-miss range without hitting it
+  obstacles = obstacles.map(obstacle => {
+    const closeToBall = circleIntersectsHitbox(ball.position, ball.radius + NEAR_MISS_DISTANCE, getObstacleHitbox(obstacle));
+    if (obstacle.closeToBall && !closeToBall && !isOver) {
+      stats.nearMisses += 1;
+    }
+    return obstacle.closeToBall === closeToBall ? obstacle : { ...obstacle, closeToBall };
+  });
+
+  // Update coins; a magnet steers nearby coins straight at the ball
+  const coins = state.coins
+    .map(coin => {
+      const toBallX = ball.position.x - coin.position.x;
+      const toBallY = ball.position.y - coin.position.y;
+      const distance = Math.hypot(toBallX, toBallY);
+      const velocity = activePowerUps.magnet > 0 && distance > 0 && distance < MAGNET_RANGE
+        ? { x: (toBallX / distance) * MAGNET_SPEED, y: (toBallY / distance) * MAGNET_SPEED }
+        : coin.velocity;
+
+      return {
+        ...coin,
+        velocity,
+        position: {
+          x: coin.position.x + velocity.x * worldDt,
+          y: coin.position.y + velocity.y * worldDt,
+        },
+      };
+    })
+    .filter(coin => isOnScreen(coin.position, config));
+
+  if (config.level) {
+    dueWaves.waves.forEach(wave => wave.coins?.forEach(coin => {
+      coins.push(createCoin(`coin_${nextEntityId++}`, coin.side, coin.y * config.screenHeight, coin.value, difficulty.obstacleSpeed, config));
+    }));
+  } else if (rng() < chanceOver(difficulty.coinRate, dt)) {
+    // Spawn new coins occasionally
+    const side = rng() < 0.5 ? 'left' : 'right';
+    const coinValue = rng() < 0.8 ? 1 : 5; // 80% chance for 1 coin, 20% for 5 coins
+    const y = rng() * (config.screenHeight - 200) + 100;
+
+    coins.push(createCoin(`coin_${nextEntityId++}`, side, y, coinValue, difficulty.obstacleSpeed, config));
+  }
+
+  // Check coin collection
+  for (let i = coins.length - 1; i >= 0; i--) {
+    const coin = coins[i];
+
+    if (circleIntersectsHitbox(ball.position, ball.radius, getCoinHitbox(coin))) {
+      stats.coinsCollected += activePowerUps.doubleCoins > 0 ? coin.value * 2 : coin.value;
+      if (coin.value >= 5) {
+        stats.bigCoinsCollected += 1;
+      }
+      coins.splice(i, 1);
+    }
+  }
+
+  // Update power-ups
+  const powerUps: PowerUp[] = state.powerUps
+    .map(powerUp => ({
+      ...powerUp,
+      position: {
+        x: powerUp.position.x + powerUp.velocity.x * worldDt,
+        y: powerUp.position.y + powerUp.velocity.y * worldDt,
+      },
+    }))
+    .filter(powerUp => isOnScreen(powerUp.position, config));
+
+  // Spawn new power-ups rarely, and never in authored levels
+  if (!config.level && rng() < chanceOver(POWER_UP_SPAWN_RATE, dt)) {
+    const side = rng() < 0.5 ? 'left' : 'right';
+
+    powerUps.push({
+      id: `powerUp_${nextEntityId++}`,
+      position: {
+        x: side === 'left' ? -30 : config.screenWidth + 30,
+        y: rng() * (config.screenHeight - 200) + 100,
+      },
+      velocity: { x: side === 'left' ? POWER_UP_SPEED : -POWER_UP_SPEED, y: 0 },
+      radius: 18,
+      type: POWER_UP_TYPES[Math.floor(rng() * POWER_UP_TYPES.length)],
+    });
+  }
+
+  // Power-up timers run in real time, not slow motion
+  for (const type of POWER_UP_TYPES) {
+    activePowerUps[type] = Math.max(0, activePowerUps[type] - dt);
+  }
+
+  // Check power-up pickup; picking one up (re)starts its full timer
+  for (let i = powerUps.length - 1; i >= 0; i--) {
+    const powerUp = powerUps[i];
+
+    if (circleIntersectsHitbox(ball.position, ball.radius, getPowerUpHitbox(powerUp))) {
+      activePowerUps[powerUp.type] = POWER_UPS[powerUp.type].duration;
+      powerUps.splice(i, 1);
+    }
+  }
+
+  // Update score based on time survived
+  stats.duration += dt;
+
+  // Reaching the level goal ends the run as a win
+  const isComplete = !isOver && !!config.level && isGoalReached(config.level.goal, stats);
+
+  return {
+    ...state,
+    ball,
+    obstacles,
+    coins,
+    powerUps,
+    activePowerUps,
+    stats,
+    nextEntityId,
+    nextWave: dueWaves.nextWave,
+    isOver: isOver || isComplete,
+    isComplete,
+  };
+};
+
+const lerpVector = (from: Vector2, to: Vector2, alpha: number): Vector2 => ({
+  x: from.x + (to.x - from.x) * alpha,
+  y: from.y + (to.y - from.y) * alpha,
+});
+
+const interpolateEntities = <T extends { id: string; position: Vector2 }>(previous: T[], current: T[], alpha: number): T[] => {
+  const previousPositions = new Map(previous.map(entity => [entity.id, entity.position]));
+
+  return current.map(entity => {
+    const from = previousPositions.get(entity.id);
+    return from ? { ...entity, position: lerpVector(from, entity.position, alpha) } : entity;
+  });
+};
+
+// Blend positions between the last two simulation steps so movement stays
+// smooth when the display refresh rate doesn't match FIXED_TIMESTEP
+export const interpolateSimulation = (previous: SimulationState, current: SimulationState, alpha: number): SimulationState => ({
+  ...current,
+  ball: { ...current.ball, position: lerpVector(previous.ball.position, current.ball.position, alpha) },
+  obstacles: interpolateEntities(previous.obstacles, current.obstacles, alpha),
+  coins: interpolateEntities(previous.coins, current.coins, alpha),
+  powerUps: interpolateEntities(previous.powerUps, current.powerUps, alpha),
+});
@@ -0,0 +1,287 @@
+// Stand-in for the online leaderboard, for development and testing. It speaks
+// the same HTTP API as services/leaderboardClient.ts and keeps everything in
+// memory, or in a JSON file when LEADERBOARD_DATA is set.
+//
+//   npm run leaderboard-server
+//   PORT=9000 LEADERBOARD_DATA=./leaderboard.json npm run leaderboard-server
+//
+// POST /scores  { scores: ScoreSubmission[] }  -> { accepted: number }  (impossible scores aren't accepted)
+// GET  /scores?difficulty=normal&category=time&window=week&challengeDate=&players=A,B&limit=10&playerId=A
+//                          -> { entries: ScoreSubmission[], player: { rank, entry } | null }
+const fs = require('fs');
+const http = require('http');
+const DIFFICULTY_CURVES = require('../game/difficultyCurves.json');
+const PLAUSIBILITY = require('../game/plausibility.json');
+const SCORING = require('../game/scoring.json');
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = process.env.LEADERBOARD_DATA || null;
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_LIMIT = 100;
+
+const CATEGORIES = {
+  time: 'bestTime',
+  coins: 'bestCoins',
+  points: 'bestPoints',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Same limits as getRunLimits in game/plausibility.ts, derived from the same
+// data; a client can't be trusted to have checked its own runs
+const getPeak = curve => Math.max(...curve.map(point => point.value));
+const getPeakTime = curve => Math.max(...curve.map(point => point.time));
+
+const getRunLimits = curves => {
+  const peakTime = Math.max(
+    ...[curves.obstacleSpeed, curves.spawnRate, curves.coinRate, curves.gravity, ...Object.values(curves.obstacleMix)].map(getPeakTime)
+  );
+  return {
+    maxSeconds: peakTime + PLAUSIBILITY.maxSecondsAfterPeak,
+    maxCoinsPerSecond: getPeak(curves.coinRate) * PLAUSIBILITY.coinSpawnAllowance * PLAUSIBILITY.maxCoinValue,
+    coinGrace: PLAUSIBILITY.coinGraceSpawns * PLAUSIBILITY.maxCoinValue,
+    maxBonusPointsPerSecond:
+      PLAUSIBILITY.maxJugglesPerSecond * SCORING.jugglePoints * SCORING.maxComboMultiplier +
+      getPeak(curves.spawnRate) * SCORING.nearMissPoints,
+  };
+};
+
+const RUN_LIMITS = Object.fromEntries(Object.entries(DIFFICULTY_CURVES).map(([id, curves]) => [id, getRunLimits(curves)]));
+
+// One entry per player and board, with the runs behind the today and this
+// week windows (runs older than a week are dropped)
+const entries = new Map();
+const runs = new Map();
+
+const getKey = entry => `${entry.playerId}:${entry.difficulty}:${entry.challengeDate || ''}`;
+
+const isFiniteNumber = value => typeof value === 'number' && Number.isFinite(value);
+
+const isRun = value =>
+  typeof value === 'object' &&
+  value !== null &&
+  ['time', 'coins', 'points', 'timestamp'].every(key => isFiniteNumber(value[key])) &&
+  typeof value.skin === 'string';
+
+const isSubmission = value =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof value.playerId === 'string' &&
+  value.playerId.length > 0 &&
+  typeof value.playerName === 'string' &&
+  typeof value.difficulty === 'string' &&
+  (value.challengeDate === undefined || typeof value.challengeDate === 'string') &&
+  ['bestTime', 'bestCoins', 'bestPoints', 'bestTimeTimestamp', 'bestCoinsTimestamp', 'bestPointsTimestamp'].every(key =>
+    isFiniteNumber(value[key])
+  ) &&
+  ['bestTimeSkin', 'bestCoinsSkin', 'bestPointsSkin'].every(key => typeof value[key] === 'string') &&
+  (value.runs === undefined || (Array.isArray(value.runs) && value.runs.every(isRun)));
+
+const getMaxCoins = (limits, time) => limits.maxCoinsPerSecond * (time + 1) + limits.coinGrace;
+const getMaxPoints = (limits, time, coins) =>
+  time * SCORING.pointsPerSecond + coins * SCORING.coinPoints + limits.maxBonusPointsPerSecond * (time + 1);
+
+// Same checks as checkRun and checkEntry in game/plausibility.ts
+const isPlausibleRun = (run, difficulty) => {
+  const limits = RUN_LIMITS[difficulty];
+  return (
+    limits !== undefined &&
+    run.time >= 0 &&
+    run.coins >= 0 &&
+    run.time <= limits.maxSeconds &&
+    run.coins <= getMaxCoins(limits, run.time) &&
+    run.points >= run.time * SCORING.pointsPerSecond + run.coins * SCORING.coinPoints &&
+    run.points <= getMaxPoints(limits, run.time, run.coins)
+  );
+};
+
+const isPlausibleEntry = entry => {
+  const limits = RUN_LIMITS[entry.difficulty];
+  return (
+    limits !== undefined &&
+    entry.bestTime >= 0 &&
+    entry.bestCoins >= 0 &&
+    entry.bestPoints >= 0 &&
+    entry.bestTime <= limits.maxSeconds &&
+    entry.bestCoins <= getMaxCoins(limits, entry.bestTime) &&
+    entry.bestPoints <= getMaxPoints(limits, entry.bestTime, getMaxCoins(limits, entry.bestTime))
+  );
+};
+
+// Same windows as getWindowStart in game/leaderboard.ts: UTC days, weeks from Monday
+const getWindowStart = (window, now) => {
+  if (window !== 'today' && window !== 'week') return 0;
+
+  const date = new Date(now);
+  const today = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return window === 'today' ? today : today - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+};
+
+// Same conflict resolution as mergeBests in game/leaderboard.ts: each category
+// keeps the better score, ties keep what was stored, the latest name wins
+const mergeBests = (existing, incoming) => {
+  const merged = { ...existing, playerName: incoming.playerName };
+  for (const field of ['bestTime', 'bestCoins', 'bestPoints']) {
+    if (incoming[field] > existing[field]) {
+      merged[field] = incoming[field];
+      merged[`${field}Timestamp`] = incoming[`${field}Timestamp`];
+      merged[`${field}Skin`] = incoming[`${field}Skin`];
+    }
+  }
+  return merged;
+};
+
+// Only the fields the API knows about are stored
+const toEntry = submission => ({
+  playerId: submission.playerId,
+  playerName: submission.playerName,
+  difficulty: submission.difficulty,
+  challengeDate: submission.challengeDate,
+  bestTime: submission.bestTime,
+  bestCoins: submission.bestCoins,
+  bestPoints: submission.bestPoints,
+  bestTimeTimestamp: submission.bestTimeTimestamp,
+  bestCoinsTimestamp: submission.bestCoinsTimestamp,
+  bestPointsTimestamp: submission.bestPointsTimestamp,
+  bestTimeSkin: submission.bestTimeSkin,
+  bestCoinsSkin: submission.bestCoinsSkin,
+  bestPointsSkin: submission.bestPointsSkin,
+});
+
+// A player's bests from their runs inside a window, as an entry
+const getWindowEntry = (entry, windowStart) => {
+  const inWindow = (runs.get(getKey(entry)) || []).filter(run => run.timestamp >= windowStart);
+  if (inWindow.length === 0) return null;
+
+  return inWindow
+    .map(run => ({
+      ...entry,
+      bestTime: run.time,
+      bestCoins: run.coins,
+      bestPoints: run.points,
+      bestTimeTimestamp: run.timestamp,
+      bestCoinsTimestamp: run.timestamp,
+      bestPointsTimestamp: run.timestamp,
+      bestTimeSkin: run.skin,
+      bestCoinsSkin: run.skin,
+      bestPointsSkin: run.skin,
+    }))
+    .reduce(mergeBests);
+};
+
+const load = () => {
+  if (!DATA_FILE || !fs.existsSync(DATA_FILE)) return;
+  const saved = JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+  saved.entries.filter(isSubmission).forEach(entry => entries.set(getKey(entry), toEntry(entry)));
+  Object.entries(saved.runs).forEach(([key, playerRuns]) => runs.set(key, playerRuns.filter(isRun)));
+};
+
+const persist = () => {
+  if (!DATA_FILE) return;
+  fs.writeFileSync(DATA_FILE, JSON.stringify({ entries: [...entries.values()], runs: Object.fromEntries(runs) }, null, 2));
+};
+
+const submitScores = scores => {
+  const valid = scores.filter(isSubmission).filter(isPlausibleEntry);
+  const weekStart = getWindowStart('week', Date.now());
+  valid.forEach(submission => {
+    const key = getKey(submission);
+    const existing = entries.get(key);
+    entries.set(key, existing ? mergeBests(existing, toEntry(submission)) : toEntry(submission));
+
+    const submitted = (submission.runs || []).filter(run => isPlausibleRun(run, submission.difficulty));
+    // A revived run is resubmitted under the timestamp it was first scored
+    // with, and replaces the partial run
+    const playerRuns = [
+      ...(runs.get(key) || []).filter(run => !submitted.some(other => other.timestamp === run.timestamp)),
+      ...submitted,
+    ].filter(run => run.timestamp >= weekStart);
+    runs.set(key, playerRuns);
+  });
+  persist();
+  return valid.length;
+};
+
+const getTopScores = query => {
+  const field = CATEGORIES[query.get('category')] || CATEGORIES.time;
+  const difficulty = query.get('difficulty');
+  const challengeDate = query.get('challengeDate') || undefined;
+  const windowStart = getWindowStart(query.get('window'), Date.now());
+  const players = query.get('players') ? query.get('players').split(',') : null;
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Number(query.get('limit')) || 10));
+  const playerId = query.get('playerId');
+
+  const ranked = [...entries.values()]
+    .filter(entry => entry.difficulty === difficulty && entry.challengeDate === challengeDate)
+    .filter(entry => !players || players.includes(entry.playerId))
+    .map(entry => (windowStart > 0 ? getWindowEntry(entry, windowStart) : entry))
+    .filter(entry => entry !== null)
+    .sort((a, b) => b[field] - a[field] || a[`${field}Timestamp`] - b[`${field}Timestamp`]);
+
+  const playerIndex = ranked.findIndex(entry => entry.playerId === playerId);
+  return {
+    entries: ranked.slice(0, limit),
+    player: playerIndex < 0 ? null : { rank: playerIndex + 1, entry: ranked[playerIndex] },
+  };
+};
+
+const send = (response, status, body) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    // The web build is served from another port
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = request =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', chunk => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        request.destroy();
+      }
+    });
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+
+const server = http.createServer(async (request, response) => {
+  const url = new URL(request.url, `http://${request.headers.host || 'localhost'}`);
+
+  if (request.method === 'OPTIONS') {
+    send(response, 204);
+    return;
+  }
+  if (url.pathname !== '/scores') {
+    send(response, 404, { error: 'Not found' });
+    return;
+  }
+
+  try {
+    if (request.method === 'GET') {
+      send(response, 200, getTopScores(url.searchParams));
+    } else if (request.method === 'POST') {
+      const body = JSON.parse(await readBody(request));
+      if (!Array.isArray(body.scores)) {
+        send(response, 400, { error: 'Expected { scores: [...] }' });
+        return;
+      }
+      send(response, 200, { accepted: submitScores(body.scores) });
+    } else {
+      send(response, 405, { error: 'Method not allowed' });
+    }
+  } catch (error) {
+    send(response, 400, { error: error.message });
+  }
+});
+
+load();
+server.listen(PORT, () => {
+  console.log(`Leaderboard server listening on http://localhost:${PORT}${DATA_FILE ? `, saving to ${DATA_FILE}` : ''}`);
+});
@@ -0,0 +1,126 @@
+import { Audio } from 'expo-av';
+import { AudioSettings } from '../types/game';
+
+export type SoundEffect = 'tap' | 'coin' | 'bigCoin' | 'hit' | 'achievement' | 'gameOver';
+export type MusicTrack = 'menu' | 'game';
+
+const EFFECT_SOURCES: Record<SoundEffect, number> = {
+  tap: require('../assets/sounds/tap.wav'),
+  coin: require('../assets/sounds/coin.wav'),
+  bigCoin: require('../assets/sounds/bigCoin.wav'),
+  hit: require('../assets/sounds/hit.wav'),
+  achievement: require('../assets/sounds/achievement.wav'),
+  gameOver: require('../assets/sounds/gameOver.wav'),
+};
+
+const MUSIC_SOURCES: Record<MusicTrack, number> = {
+  menu: require('../assets/sounds/menuMusic.wav'),
+  game: require('../assets/sounds/gameMusic.wav'),
+};
+
+// Changing the playback rate is a native call, so small changes are skipped
+const MIN_RATE_CHANGE = 0.05;
+
+// Music speeds up with the game, but only by a quarter as much and never past 1.5x
+export const getMusicRate = (speedMultiplier: number) => Math.min(1.5, Math.max(0.75, 1 + (speedMultiplier - 1) * 0.25));
+
+export interface AudioManager {
+  load: () => Promise<void>;
+  playEffect: (effect: SoundEffect) => void;
+  playMusic: (track: MusicTrack | null) => void; // null stops the music
+  setMusicRate: (rate: number) => void;
+  setMuted: (muted: boolean) => void;
+  setSettings: (settings: AudioSettings) => void;
+  unload: () => Promise<void>;
+}
+
+// Sounds are preloaded once; every call after that is fire-and-forget and a
+// failed native call is logged rather than surfaced, since audio is never
+// worth interrupting the game for
+export const createAudioManager = (initialSettings: AudioSettings): AudioManager => {
+  let settings = initialSettings;
+  let muted = false;
+  let currentTrack: MusicTrack | null = null;
+  let musicRate = 1;
+  const effects: Partial<Record<SoundEffect, Audio.Sound>> = {};
+  const music: Partial<Record<MusicTrack, Audio.Sound>> = {};
+
+  const run = (action: () => Promise<unknown>) => {
+    action().catch(error => console.log('Audio error:', error));
+  };
+
+  const currentMusic = () => (currentTrack ? music[currentTrack] : undefined);
+  const musicVolume = () => (settings.musicEnabled ? settings.musicVolume : 0);
+  const sfxVolume = () => (settings.sfxEnabled ? settings.sfxVolume : 0);
+
+  const syncMusic = () => {
+    const sound = currentMusic();
+    if (!sound) return;
+
+    run(() => sound.setVolumeAsync(musicVolume()));
+    run(() => (muted || musicVolume() === 0 ? sound.pauseAsync() : sound.playAsync()));
+  };
+
+  const load = async () => {
+    await Audio.setAudioModeAsync({ playsInSilentModeIOS: false, staysActiveInBackground: false });
+
+    await Promise.all([
+      ...(Object.keys(EFFECT_SOURCES) as SoundEffect[]).map(async effect => {
+        const { sound } = await Audio.Sound.createAsync(EFFECT_SOURCES[effect]);
+        effects[effect] = sound;
+      }),
+      ...(Object.keys(MUSIC_SOURCES) as MusicTrack[]).map(async track => {
+        const { sound } = await Audio.Sound.createAsync(MUSIC_SOURCES[track], { isLooping: true });
+        music[track] = sound;
+      }),
+    ]);
+
+    // A track may have been requested while loading
+    syncMusic();
+  };
+
+  const playEffect = (effect: SoundEffect) => {
+    const sound = effects[effect];
+    if (!sound || muted || sfxVolume() === 0) return;
+
+    run(() => sound.replayAsync({ volume: sfxVolume() }));
+  };
+
+  const playMusic = (track: MusicTrack | null) => {
+    if (track === currentTrack) return;
+
+    const previous = currentMusic();
+    if (previous) run(() => previous.stopAsync());
+
+    currentTrack = track;
+    musicRate = 1;
+    const sound = currentMusic();
+    if (sound) run(() => sound.setRateAsync(1, true));
+    syncMusic();
+  };
+
+  const setMusicRate = (rate: number) => {
+    const sound = currentMusic();
+    if (!sound || Math.abs(rate - musicRate) < MIN_RATE_CHANGE) return;
+
+    musicRate = rate;
+    run(() => sound.setRateAsync(rate, true));
+  };
+
+  const setMuted = (nextMuted: boolean) => {
+    if (nextMuted === muted) return;
+    muted = nextMuted;
+    syncMusic();
+  };
+
+  const setSettings = (nextSettings: AudioSettings) => {
+    settings = nextSettings;
+    syncMusic();
+  };
+
+  const unload = async () => {
+    await Promise.all([...Object.values(effects), ...Object.values(music)].map(sound => sound?.unloadAsync()));
+  };
+
+  return { load, playEffect, playMusic, setMusicRate, setMuted, setSettings, unload };
+};
@@ -0,0 +1,91 @@
+import * as DocumentPicker from 'expo-document-picker';
+import { Directory, File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+export interface BackupInfo {
+  id: string;
+  createdAt: number;
+}
+
+// Somewhere exported saves can be kept and read back. The game only sees
+// this interface, so a cloud provider can stand in for the local one.
+export interface BackupProvider {
+  list: () => Promise<BackupInfo[]>; // newest first
+  write: (contents: string, createdAt: number) => Promise<BackupInfo>;
+  read: (id: string) => Promise<string>;
+  remove: (id: string) => Promise<void>;
+}
+
+const FILE_PREFIX = 'juggle-jam-';
+const FILE_EXTENSION = '.json';
+
+const getFileName = (id: string) => `${FILE_PREFIX}${id}${FILE_EXTENSION}`;
+
+// Keeps backups as files in the app's documents folder, one per export.
+// They don't survive uninstalling the game, so this is mainly for testing
+// the backup flow and for rolling back a bad import; a backup meant to
+// outlast a reinstall goes through shareBackupFile.
+export const createLocalBackupProvider = (): BackupProvider => {
+  const directory = new Directory(Paths.document, 'backups');
+
+  const getFile = (id: string) => new File(directory, getFileName(id));
+
+  const list = async () => {
+    if (!directory.exists) return [];
+    return directory
+      .list()
+      .filter((item): item is File => item instanceof File)
+      .map(file => file.name)
+      .filter(name => name.startsWith(FILE_PREFIX) && name.endsWith(FILE_EXTENSION))
+      .map(name => name.slice(FILE_PREFIX.length, -FILE_EXTENSION.length))
+      .map(id => ({ id, createdAt: Number(id) }))
+      .filter(backup => Number.isFinite(backup.createdAt))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  };
+
+  const write = async (contents: string, createdAt: number) => {
+    directory.create({ idempotent: true });
+    const backup = { id: String(createdAt), createdAt };
+    const file = getFile(backup.id);
+    if (!file.exists) file.create();
+    file.write(contents);
+    return backup;
+  };
+
+  const read = async (id: string) => {
+    const file = getFile(id);
+    if (!file.exists) {
+      throw new Error('That backup no longer exists');
+    }
+    return file.text();
+  };
+
+  const remove = async (id: string) => {
+    const file = getFile(id);
+    if (file.exists) file.delete();
+  };
+
+  return { list, write, read, remove };
+};
+
+// Hands a backup to the share sheet as a file, so the player can keep it
+// outside the app (Files, Drive, email...) where uninstalling the game
+// doesn't remove it
+export const shareBackupFile = async (contents: string, createdAt: number) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const file = new File(Paths.cache, getFileName(String(createdAt)));
+  if (!file.exists) file.create();
+  file.write(contents);
+  await Sharing.shareAsync(file.uri, { mimeType: 'application/json', UTI: 'public.json', dialogTitle: 'Save backup' });
+};
+
+// Lets the player pick a backup file kept outside the app. Resolves with its
+// contents, or null when the picker was closed without choosing one.
+export const pickBackupFile = async (): Promise<string | null> => {
+  const result = await DocumentPicker.getDocumentAsync({ type: ['application/json', '*/*'], copyToCacheDirectory: true });
+  if (result.canceled) return null;
+  return new File(result.assets[0].uri).text();
+};
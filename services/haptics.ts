@@ -0,0 +1,44 @@
+import * as Haptics from 'expo-haptics';
+
+export type HapticPattern = 'tick' | 'doublePulse' | 'heavy';
+
+// Gap between the two taps of a double pulse
+const PULSE_GAP_MS = 80;
+
+export interface HapticsManager {
+  play: (pattern: HapticPattern) => void;
+  setEnabled: (enabled: boolean) => void;
+}
+
+// Like audio, haptics are fire-and-forget: devices without a vibration motor
+// reject the native call, which is logged and otherwise ignored
+export const createHapticsManager = (initialEnabled: boolean): HapticsManager => {
+  let enabled = initialEnabled;
+
+  const run = (action: () => Promise<unknown>) => {
+    action().catch(error => console.log('Haptics error:', error));
+  };
+
+  const play = (pattern: HapticPattern) => {
+    if (!enabled) return;
+
+    switch (pattern) {
+      case 'tick':
+        run(() => Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light));
+        break;
+      case 'doublePulse':
+        run(() => Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium));
+        setTimeout(() => run(() => Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium)), PULSE_GAP_MS);
+        break;
+      case 'heavy':
+        run(() => Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy));
+        break;
+    }
+  };
+
+  const setEnabled = (nextEnabled: boolean) => {
+    enabled = nextEnabled;
+  };
+
+  return { play, setEnabled };
+};
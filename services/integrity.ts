@@ -0,0 +1,101 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+
+const KEY_NAME = 'juggleJamSaveKey';
+const KEY_BYTES = 32;
+const SHA256_BLOCK_BYTES = 64;
+
+export interface SigningKey {
+  bytes: Uint8Array;
+  isNew: boolean; // created this session, so nothing stored could have been signed with it
+}
+
+export type FieldSignatures = Record<string, string>;
+
+// The key never leaves the device. On iOS and Android it lives in the
+// keychain/keystore, out of reach of anyone editing the app's storage. Web
+// has nowhere safer than local storage, so there the signatures only stop
+// casual edits.
+const readKey = () => (Platform.OS === 'web' ? AsyncStorage.getItem(KEY_NAME) : SecureStore.getItemAsync(KEY_NAME));
+const writeKey = (hex: string) =>
+  Platform.OS === 'web' ? AsyncStorage.setItem(KEY_NAME, hex) : SecureStore.setItemAsync(KEY_NAME, hex);
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) ?? []).map(pair => parseInt(pair, 16)));
+
+let signingKey: Promise<SigningKey> | null = null;
+
+export const getSigningKey = (): Promise<SigningKey> => {
+  signingKey ??= (async () => {
+    const stored = await readKey();
+    if (stored && stored.length === KEY_BYTES * 2) {
+      return { bytes: fromHex(stored), isNew: false };
+    }
+
+    const bytes = Crypto.getRandomBytes(KEY_BYTES);
+    await writeKey(toHex(bytes));
+    return { bytes, isNew: true };
+  })();
+  // A failed read is retried next time rather than remembered
+  signingKey.catch(() => {
+    signingKey = null;
+  });
+  return signingKey;
+};
+
+const concat = (a: Uint8Array, b: Uint8Array) => {
+  const joined = new Uint8Array(a.length + b.length);
+  joined.set(a);
+  joined.set(b, a.length);
+  return joined;
+};
+
+const sha256 = async (data: Uint8Array<ArrayBuffer>) => new Uint8Array(await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, data));
+
+// HMAC-SHA256 (RFC 2104); expo-crypto only offers plain digests. The key
+// is shorter than a block, so it's only padded.
+const hmac = async (key: Uint8Array, message: string) => {
+  const block = new Uint8Array(SHA256_BLOCK_BYTES);
+  block.set(key);
+
+  const inner = await sha256(concat(block.map(byte => byte ^ 0x36), new TextEncoder().encode(message)));
+  return toHex(await sha256(concat(block.map(byte => byte ^ 0x5c), inner)));
+};
+
+// Signs a whole payload, such as an exported save, with this device's key
+export const signMessage = (key: Uint8Array, message: string) => hmac(key, message);
+
+// The field name is signed along with the value so values can't be swapped between fields
+const signField = (key: Uint8Array, field: string, value: unknown) => hmac(key, `${field}:${JSON.stringify(value)}`);
+
+// Most writes change one or two fields, and unchanged fields keep the same
+// value object, so their last signature can be reused
+const signatureCache = new Map<string, { value: unknown; signature: string }>();
+
+// One signature per field, so a modified value can be told apart from the rest of the save
+export const signFields = async (key: Uint8Array, save: Record<string, unknown>): Promise<FieldSignatures> => {
+  const entries = await Promise.all(
+    Object.entries(save)
+      .filter(([, value]) => value !== undefined)
+      .map(async ([field, value]) => {
+        const cached = signatureCache.get(field);
+        const signature = cached && cached.value === value ? cached.signature : await signField(key, field, value);
+        signatureCache.set(field, { value, signature });
+        return [field, signature] as const;
+      }),
+  );
+  return Object.fromEntries(entries);
+};
+
+// The fields whose value doesn't match its signature, including ones with no signature at all
+export const findModifiedFields = async (key: Uint8Array, save: Record<string, unknown>, signatures: FieldSignatures) => {
+  const results = await Promise.all(
+    Object.entries(save).map(async ([field, value]) =>
+      signatures[field] === (await signField(key, field, value)) ? null : field
+    ),
+  );
+  return results.filter((field): field is string => field !== null);
+};
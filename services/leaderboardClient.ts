@@ -0,0 +1,98 @@
+import { DifficultyPresetId, LeaderboardCategory, LeaderboardEntry, LeaderboardWindow, RunScore, ScoreSubmission } from '../types/game';
+
+export interface LeaderboardQuery {
+  difficulty: DifficultyPresetId;
+  challengeDate?: string;
+  category: LeaderboardCategory; // entries come back best first in this category
+  window: LeaderboardWindow;
+  playerIds?: string[]; // only these players; everyone when left out
+  limit: number;
+  playerId: string; // the player whose rank is looked up
+}
+
+export interface LeaderboardPage {
+  entries: LeaderboardEntry[];
+  player: { rank: number; entry: LeaderboardEntry } | null; // null when the player has no score in the window
+}
+
+// How the game talks to an online leaderboard. The server keeps one entry per
+// player and board and resolves conflicts by keeping the best scores.
+export interface LeaderboardClient {
+  submit: (submissions: ScoreSubmission[]) => Promise<void>;
+  fetchTop: (query: LeaderboardQuery) => Promise<LeaderboardPage>;
+}
+
+// Development builds talk to the stand-in server (`npm run leaderboard-server`)
+// unless EXPO_PUBLIC_LEADERBOARD_URL points somewhere else. Without a URL the
+// game stays offline and keeps submissions queued.
+export const LEADERBOARD_URL = process.env.EXPO_PUBLIC_LEADERBOARD_URL || (__DEV__ ? 'http://localhost:8787' : null);
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isRunScore = (value: unknown): value is RunScore =>
+  isRecord(value) &&
+  ['time', 'coins', 'points', 'timestamp'].every(key => typeof value[key] === 'number' && Number.isFinite(value[key])) &&
+  typeof value.skin === 'string';
+
+export const isScoreSubmission = (value: unknown): value is ScoreSubmission =>
+  isRecord(value) &&
+  typeof value.playerId === 'string' &&
+  typeof value.playerName === 'string' &&
+  typeof value.difficulty === 'string' &&
+  (value.challengeDate === undefined || typeof value.challengeDate === 'string') &&
+  ['bestTime', 'bestCoins', 'bestPoints', 'bestTimeTimestamp', 'bestCoinsTimestamp', 'bestPointsTimestamp'].every(
+    key => typeof value[key] === 'number' && Number.isFinite(value[key])
+  ) &&
+  ['bestTimeSkin', 'bestCoinsSkin', 'bestPointsSkin'].every(key => typeof value[key] === 'string') &&
+  (value.runs === undefined || (Array.isArray(value.runs) && value.runs.every(isRunScore)));
+
+const toEntry = ({ runs, ...submission }: ScoreSubmission): LeaderboardEntry => ({
+  ...submission,
+  id: `${submission.playerId}:${submission.difficulty}:${submission.challengeDate ?? ''}`,
+});
+
+export const createHttpLeaderboardClient = (baseUrl: string): LeaderboardClient => {
+  // fetch has no timeout of its own, and an unreachable server should count
+  // as offline rather than leave the request hanging
+  const request = async (path: string, init?: RequestInit): Promise<unknown> => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const response = await fetch(`${baseUrl}${path}`, { ...init, signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`Leaderboard request failed with status ${response.status}`);
+      }
+      return await response.json();
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+
+  const submit = async (submissions: ScoreSubmission[]) => {
+    await request('/scores', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ scores: submissions }),
+    });
+  };
+
+  const fetchTop = async ({ difficulty, challengeDate, category, window, playerIds, limit, playerId }: LeaderboardQuery) => {
+    const params = new URLSearchParams({ difficulty, category, window, limit: String(limit), playerId });
+    if (challengeDate) params.set('challengeDate', challengeDate);
+    if (playerIds) params.set('players', playerIds.join(','));
+
+    const body = await request(`/scores?${params}`);
+    if (!isRecord(body) || !Array.isArray(body.entries)) {
+      throw new Error('Leaderboard response was not understood');
+    }
+    const player = isRecord(body.player) && typeof body.player.rank === 'number' && isScoreSubmission(body.player.entry)
+      ? { rank: body.player.rank, entry: toEntry(body.player.entry) }
+      : null;
+    return { entries: body.entries.filter(isScoreSubmission).map(toEntry), player };
+  };
+
+  return { submit, fetchTop };
+};
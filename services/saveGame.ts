@@ -0,0 +1,571 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Achievement, CoinTransaction, ControlScheme, DailyReward, DifficultyPresetId, LeaderboardEntry, PowerUpType, ProfileData, Replay, RunRecord, SaveData, ScoreSubmission } from '../types/game';
+import { DAILY_REWARDS, INITIAL_ACHIEVEMENTS, POWER_UP_TYPES } from '../game/catalog';
+import { DIFFICULTY_PRESET_IDS } from '../game/difficulty';
+import { LEVELS } from '../game/levels';
+import { createPlayerId, isPlayerId } from '../game/player';
+import { getProfileData } from '../game/profiles';
+import { checkEntry, checkRun } from '../game/plausibility';
+import { getLedgerBalance } from './wallet';
+import { isRunScore, isScoreSubmission } from './leaderboardClient';
+import { findModifiedFields, getSigningKey, SigningKey, signFields } from './integrity';
+
+export const SAVE_KEY = 'juggleJamSave';
+export const SAVE_VERSION = 3;
+
+// Where an unreadable save is copied before it gets replaced, so nothing is lost for good
+const CORRUPTED_SAVE_KEY = 'juggleJamSaveCorrupted';
+
+// Every field of the save is signed with a key kept outside it (see
+// services/integrity.ts). Fields changed outside the game are copied here
+// with when they were found, then reset.
+const SIGNATURES_KEY = 'juggleJamSaveSignatures';
+const QUARANTINE_KEY = 'juggleJamSaveQuarantine';
+
+// Before version 1 every value had its own key. Those keys are read once as
+// a version 0 document and migrated forward.
+const LEGACY_KEYS = {
+  highScore: 'juggleJamHighScore',
+  collectedCoins: 'juggleJamCoins',
+  unlockedSkins: 'juggleJamUnlockedSkins',
+  selectedSkin: 'juggleJamSelectedSkin',
+  adsRemoved: 'juggleJamAdsRemoved',
+  leaderboard: 'juggleJamLeaderboard',
+  playerName: 'juggleJamPlayerName',
+  dailyRewards: 'juggleJamDailyRewards',
+  lastLoginDate: 'juggleJamLastLoginDate',
+  currentStreak: 'juggleJamCurrentStreak',
+  achievements: 'juggleJamAchievements',
+  totalGamesPlayed: 'juggleJamTotalGamesPlayed',
+};
+
+type RawSave = Record<string, unknown>;
+
+// The bests shared by leaderboard entries and queued submissions
+type EntryBests = Pick<
+  LeaderboardEntry,
+  | 'difficulty'
+  | 'bestTime'
+  | 'bestTimeTimestamp'
+  | 'bestTimeSkin'
+  | 'bestCoins'
+  | 'bestCoinsTimestamp'
+  | 'bestCoinsSkin'
+  | 'bestPoints'
+  | 'bestPointsTimestamp'
+  | 'bestPointsSkin'
+>;
+
+export interface SaveLoadResult {
+  data: SaveData;
+  issues: string[]; // problems that were repaired while loading
+}
+
+const createEmptyPowerUpInventory = () =>
+  Object.fromEntries(POWER_UP_TYPES.map(type => [type, 0])) as Record<PowerUpType, number>;
+
+const createEmptyHighScores = () =>
+  Object.fromEntries(DIFFICULTY_PRESET_IDS.map(id => [id, 0])) as Record<DifficultyPresetId, number>;
+
+export const createDefaultSave = (): SaveData => ({
+  version: SAVE_VERSION,
+  difficulty: 'normal',
+  highScores: createEmptyHighScores(),
+  collectedCoins: 0,
+  coinLedger: [],
+  powerUpInventory: createEmptyPowerUpInventory(),
+  levelStars: {},
+  dailyChallengeDate: '',
+  audioSettings: { musicEnabled: true, musicVolume: 0.5, sfxEnabled: true, sfxVolume: 0.8 },
+  settings: { hapticsEnabled: true, leftHanded: false, controlSensitivity: 1, controlScheme: 'tap' },
+  unlockedSkins: ['classic'],
+  selectedSkin: 'classic',
+  adsRemoved: false,
+  leaderboard: [],
+  runHistory: [],
+  playerName: 'Player',
+  playerId: '', // generated the first time a save is validated
+  friendIds: [],
+  pendingScores: [],
+  dailyRewards: DAILY_REWARDS.map(reward => ({ ...reward })),
+  lastLoginDate: '',
+  currentStreak: 0,
+  achievements: INITIAL_ACHIEVEMENTS.map(achievement => ({ ...achievement })),
+  totalGamesPlayed: 0,
+  profiles: [],
+});
+
+// A fresh profile with its own id, for adding next to the existing ones
+export const createDefaultProfile = (playerName: string): ProfileData => ({
+  ...getProfileData(createDefaultSave()),
+  playerName,
+  playerId: createPlayerId(),
+});
+
+const parseJson = (value: unknown): unknown => {
+  if (typeof value !== 'string') return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+const parseInteger = (value: unknown): number | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+// Forward migrations, keyed by the version they upgrade from
+const MIGRATIONS: Record<number, (save: RawSave) => RawSave> = {
+  // Legacy per-key strings to a typed document
+  0: save => ({
+    version: 1,
+    highScore: parseInteger(save[LEGACY_KEYS.highScore]),
+    collectedCoins: parseInteger(save[LEGACY_KEYS.collectedCoins]),
+    unlockedSkins: parseJson(save[LEGACY_KEYS.unlockedSkins]),
+    selectedSkin: save[LEGACY_KEYS.selectedSkin] ?? undefined,
+    adsRemoved: save[LEGACY_KEYS.adsRemoved] === 'true',
+    leaderboard: parseJson(save[LEGACY_KEYS.leaderboard]),
+    playerName: save[LEGACY_KEYS.playerName] ?? undefined,
+    dailyRewards: parseJson(save[LEGACY_KEYS.dailyRewards]),
+    lastLoginDate: save[LEGACY_KEYS.lastLoginDate] ?? undefined,
+    currentStreak: parseInteger(save[LEGACY_KEYS.currentStreak]),
+    achievements: parseJson(save[LEGACY_KEYS.achievements]),
+    totalGamesPlayed: parseInteger(save[LEGACY_KEYS.totalGamesPlayed]),
+  }),
+  // Coin ledger: the existing balance becomes its opening entry
+  1: save => {
+    const balance = typeof save.collectedCoins === 'number' ? save.collectedCoins : 0;
+    const timestamp = Date.now();
+    const openingBalance: CoinTransaction = {
+      id: `${timestamp}_0`,
+      type: 'earn',
+      amount: balance,
+      balanceAfter: balance,
+      description: 'Opening balance',
+      timestamp,
+    };
+
+    return { ...save, version: 2, coinLedger: balance > 0 ? [openingBalance] : [] };
+  },
+  // Difficulty presets: everything played so far was on Normal
+  2: save => ({
+    ...save,
+    version: 3,
+    difficulty: 'normal',
+    highScores: { ...createEmptyHighScores(), normal: save.highScore },
+    leaderboard: Array.isArray(save.leaderboard)
+      ? save.leaderboard.map(entry => (isRecord(entry) ? { ...entry, difficulty: 'normal' } : entry))
+      : save.leaderboard,
+  }),
+};
+
+export const migrateSave = (save: RawSave): RawSave => {
+  let migrated = save;
+  let version = typeof save.version === 'number' ? save.version : 0;
+
+  while (version < SAVE_VERSION) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`No save migration from version ${version}`);
+    }
+    migrated = migration(migrated);
+    version = typeof migrated.version === 'number' ? migrated.version : version + 1;
+  }
+
+  return migrated;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isReplay = (value: unknown): value is Replay =>
+  isRecord(value) &&
+  isFiniteNumber(value.seed) &&
+  isRecord(value.config) &&
+  Array.isArray(value.inputs) &&
+  Array.isArray(value.revives) &&
+  isFiniteNumber(value.totalSteps);
+
+const COIN_TRANSACTION_TYPES = ['earn', 'spend', 'reward', 'refund'];
+
+const isCoinTransaction = (value: unknown): value is CoinTransaction =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.type === 'string' &&
+  COIN_TRANSACTION_TYPES.includes(value.type) &&
+  isFiniteNumber(value.amount) &&
+  value.amount > 0 &&
+  typeof value.description === 'string' &&
+  isFiniteNumber(value.timestamp);
+
+const isDifficultyPresetId = (value: unknown): value is DifficultyPresetId =>
+  typeof value === 'string' && (DIFFICULTY_PRESET_IDS as string[]).includes(value);
+
+const isLeaderboardEntry = (value: unknown): value is LeaderboardEntry =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  isDifficultyPresetId(value.difficulty) &&
+  (value.challengeDate === undefined || typeof value.challengeDate === 'string') &&
+  typeof value.playerName === 'string' &&
+  isFiniteNumber(value.bestTime) &&
+  isFiniteNumber(value.bestCoins);
+
+const isRunRecord = (value: unknown): value is RunRecord =>
+  isRecord(value) &&
+  isRunScore(value) &&
+  typeof value.playerName === 'string' &&
+  isDifficultyPresetId(value.difficulty) &&
+  (value.challengeDate === undefined || typeof value.challengeDate === 'string');
+
+// The catalogs are the source of truth for titles, rewards and requirements;
+// saves only contribute the player's progress. New catalog entries therefore
+// reach existing players and removed ones drop out.
+const mergeAchievements = (saved: unknown[]): Achievement[] =>
+  INITIAL_ACHIEVEMENTS.map(achievement => {
+    const progress = saved.find(item => isRecord(item) && item.id === achievement.id) as Record<string, unknown> | undefined;
+    if (!progress) return { ...achievement };
+
+    return {
+      ...achievement,
+      progress: isFiniteNumber(progress.progress) ? progress.progress : achievement.progress,
+      completed: progress.completed === true,
+    };
+  });
+
+const mergeDailyRewards = (saved: unknown[]): DailyReward[] =>
+  DAILY_REWARDS.map(reward => {
+    const progress = saved.find(item => isRecord(item) && item.day === reward.day) as Record<string, unknown> | undefined;
+    return { ...reward, claimed: progress?.claimed === true };
+  });
+
+// Per-field validation: a bad field falls back to its default and is
+// reported, the rest of the save is kept
+export const validateSave = (save: RawSave): SaveLoadResult => {
+  const defaults = createDefaultSave();
+  const issues: string[] = [];
+
+  const field = <T>(key: keyof SaveData, isValid: (value: unknown) => value is T, fallback: T): T => {
+    const value = save[key];
+    if (value === undefined) return fallback;
+    if (isValid(value)) return value;
+    issues.push(`${key} was invalid and has been reset`);
+    return fallback;
+  };
+
+  const isString = (value: unknown): value is string => typeof value === 'string';
+  const isCount = (value: unknown): value is number => isFiniteNumber(value) && value >= 0;
+  const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+  const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+  const isArray = (value: unknown): value is unknown[] => Array.isArray(value);
+
+  const unlockedSkins = field('unlockedSkins', isStringArray, defaults.unlockedSkins);
+  const selectedSkin = field('selectedSkin', isString, defaults.selectedSkin);
+
+  // The ledger is the source of truth for the balance
+  const coinLedger = field('coinLedger', isArray, defaults.coinLedger).filter(isCoinTransaction);
+  const collectedCoins = getLedgerBalance(coinLedger);
+  if (save.collectedCoins !== undefined && save.collectedCoins !== collectedCoins) {
+    issues.push('Coin balance did not match the transaction history and has been corrected');
+  }
+
+  const savedInventory = field('powerUpInventory', isRecord, {});
+  const powerUpInventory = Object.fromEntries(
+    POWER_UP_TYPES.map(type => [type, isCount(savedInventory[type]) ? savedInventory[type] : 0])
+  ) as Record<PowerUpType, number>;
+
+  // Progress only for levels that still exist, as whole stars from 0 to 3
+  const savedLevelStars = field('levelStars', isRecord, {});
+  const levelStars = Object.fromEntries(
+    LEVELS
+      .filter(level => isCount(savedLevelStars[level.id]))
+      .map(level => [level.id, Math.min(3, Math.floor(savedLevelStars[level.id] as number))])
+  );
+
+  const isVolume = (value: unknown): value is number => isFiniteNumber(value) && value >= 0 && value <= 1;
+  const savedAudioSettings = field('audioSettings', isRecord, {});
+  const audioSettings = {
+    musicEnabled: isBoolean(savedAudioSettings.musicEnabled) ? savedAudioSettings.musicEnabled : defaults.audioSettings.musicEnabled,
+    musicVolume: isVolume(savedAudioSettings.musicVolume) ? savedAudioSettings.musicVolume : defaults.audioSettings.musicVolume,
+    sfxEnabled: isBoolean(savedAudioSettings.sfxEnabled) ? savedAudioSettings.sfxEnabled : defaults.audioSettings.sfxEnabled,
+    sfxVolume: isVolume(savedAudioSettings.sfxVolume) ? savedAudioSettings.sfxVolume : defaults.audioSettings.sfxVolume,
+  };
+
+  const isControlScheme = (value: unknown): value is ControlScheme => value === 'tap' || value === 'gesture';
+  const isSensitivity = (value: unknown): value is number => isFiniteNumber(value) && value >= 0.5 && value <= 1.5;
+  const savedSettings = field('settings', isRecord, {});
+  const settings = {
+    hapticsEnabled: isBoolean(savedSettings.hapticsEnabled) ? savedSettings.hapticsEnabled : defaults.settings.hapticsEnabled,
+    leftHanded: isBoolean(savedSettings.leftHanded) ? savedSettings.leftHanded : defaults.settings.leftHanded,
+    controlSensitivity: isSensitivity(savedSettings.controlSensitivity)
+      ? savedSettings.controlSensitivity
+      : defaults.settings.controlSensitivity,
+    controlScheme: isControlScheme(savedSettings.controlScheme) ? savedSettings.controlScheme : defaults.settings.controlScheme,
+  };
+
+  const savedHighScores = field('highScores', isRecord, {});
+  const highScores = Object.fromEntries(
+    DIFFICULTY_PRESET_IDS.map(id => [id, isCount(savedHighScores[id]) ? savedHighScores[id] : 0])
+  ) as Record<DifficultyPresetId, number>;
+
+  // Scores no genuine run could reach are dropped before they're shown or uploaded
+  const isPlausible = (reason: string | null, description: string) => {
+    if (reason) issues.push(`${description} was impossible and has been removed (${reason})`);
+    return reason === null;
+  };
+
+  // Within an entry, only the bests that are impossible go: saves from before
+  // runs counted their own coins kept the lifetime total as the best coins,
+  // which shouldn't cost the player their best time. A reset best starts from
+  // nothing, like the points of entries saved before runs were scored in points.
+  const keepPossibleBests = <T extends EntryBests>(entry: T, description: string): T | null => {
+    if (!isPlausible(checkEntry({ ...entry, bestCoins: 0, bestPoints: 0 }), description)) return null;
+
+    let kept = entry;
+    const coinsReason = checkEntry({ ...entry, bestPoints: 0 });
+    if (coinsReason) {
+      issues.push(`${description} had impossible best coins, which have been reset (${coinsReason})`);
+      kept = { ...kept, bestCoins: 0, bestCoinsTimestamp: entry.bestTimeTimestamp, bestCoinsSkin: entry.bestTimeSkin, bestCoinsReplay: undefined };
+    }
+    const pointsReason = checkEntry({ ...entry, bestCoins: 0 });
+    if (pointsReason) {
+      issues.push(`${description} had impossible best points, which have been reset (${pointsReason})`);
+      kept = { ...kept, bestPoints: 0, bestPointsTimestamp: entry.bestTimeTimestamp, bestPointsSkin: entry.bestTimeSkin, bestPointsReplay: undefined };
+    }
+    return kept;
+  };
+
+  const leaderboard = field('leaderboard', isArray, defaults.leaderboard).filter(isLeaderboardEntry).map((entry): LeaderboardEntry => ({
+    ...entry,
+    bestTimeReplay: isReplay(entry.bestTimeReplay) ? entry.bestTimeReplay : undefined,
+    bestCoinsReplay: isReplay(entry.bestCoinsReplay) ? entry.bestCoinsReplay : undefined,
+    // Entries saved before runs were scored in points start from nothing
+    bestPoints: isCount(entry.bestPoints) ? entry.bestPoints : 0,
+    bestPointsTimestamp: isFiniteNumber(entry.bestPointsTimestamp) ? entry.bestPointsTimestamp : entry.bestTimeTimestamp,
+    bestPointsSkin: isString(entry.bestPointsSkin) ? entry.bestPointsSkin : entry.bestTimeSkin,
+    bestPointsReplay: isReplay(entry.bestPointsReplay) ? entry.bestPointsReplay : undefined,
+    isUnverified: entry.isUnverified === true ? true : undefined,
+  }))
+    .map(entry => keepPossibleBests(entry, `A score for ${entry.playerName}`))
+    .filter((entry): entry is LeaderboardEntry => entry !== null);
+
+  // Stored profiles hold the same fields as the top of the save and are
+  // validated the same way; their problems are reported under their name
+  const playerId = field('playerId', isPlayerId, '') || createPlayerId();
+  const profiles = field('profiles', isArray, defaults.profiles)
+    .filter(isRecord)
+    .map(profile => {
+      const result = validateSave(profile);
+      issues.push(...result.issues.map(issue => `${result.data.playerName}: ${issue}`));
+      return getProfileData(result.data);
+    })
+    .filter((profile, index, all) =>
+      profile.playerId !== playerId && all.findIndex(other => other.playerId === profile.playerId) === index
+    );
+
+  return {
+    data: {
+      version: SAVE_VERSION,
+      difficulty: field('difficulty', isDifficultyPresetId, defaults.difficulty),
+      highScores,
+      collectedCoins,
+      coinLedger,
+      powerUpInventory,
+      levelStars,
+      dailyChallengeDate: field('dailyChallengeDate', isString, defaults.dailyChallengeDate),
+      audioSettings,
+      settings,
+      unlockedSkins: unlockedSkins.includes('classic') ? unlockedSkins : ['classic', ...unlockedSkins],
+      selectedSkin: unlockedSkins.includes(selectedSkin) ? selectedSkin : 'classic',
+      adsRemoved: field('adsRemoved', isBoolean, defaults.adsRemoved),
+      leaderboard,
+      runHistory: field('runHistory', isArray, defaults.runHistory)
+        .filter(isRunRecord)
+        .filter(run => isPlausible(checkRun(run, run.difficulty), `A run by ${run.playerName}`)),
+      playerName: field('playerName', isString, defaults.playerName) || defaults.playerName,
+      playerId,
+      friendIds: field('friendIds', isStringArray, defaults.friendIds).filter(isPlayerId),
+      pendingScores: field('pendingScores', isArray, defaults.pendingScores)
+        .filter(
+          (submission): submission is ScoreSubmission => isScoreSubmission(submission) && isDifficultyPresetId(submission.difficulty)
+        )
+        .map(submission => keepPossibleBests(submission, 'A score waiting to upload'))
+        .filter((submission): submission is ScoreSubmission => submission !== null)
+        .map(submission => ({
+          ...submission,
+          runs: submission.runs?.filter(run => isPlausible(checkRun(run, submission.difficulty), 'A run waiting to upload')),
+        })),
+      dailyRewards: mergeDailyRewards(field('dailyRewards', isArray, [])),
+      lastLoginDate: field('lastLoginDate', isString, defaults.lastLoginDate),
+      currentStreak: field('currentStreak', isCount, defaults.currentStreak),
+      achievements: mergeAchievements(field('achievements', isArray, [])),
+      totalGamesPlayed: field('totalGamesPlayed', isCount, defaults.totalGamesPlayed),
+      profiles,
+    },
+    issues,
+  };
+};
+
+const readLegacySave = async (): Promise<RawSave | null> => {
+  const entries = await AsyncStorage.multiGet(Object.values(LEGACY_KEYS));
+  if (entries.every(([, value]) => value === null)) return null;
+
+  return { version: 0, ...Object.fromEntries(entries) };
+};
+
+// Saves are written one at a time so an older write can never land after a newer one
+let writeQueue: Promise<void> = Promise.resolve();
+
+// The device's signing key, or null when the keystore can't be reached. The
+// save is then written unsigned rather than not at all; it's read back as
+// unverified, the same as a save whose key was lost.
+const getKeyIfAvailable = async () => {
+  try {
+    return await getSigningKey();
+  } catch (error) {
+    console.log('Save signing is unavailable:', error);
+    return null;
+  }
+};
+
+const PROFILE_FIELD_PREFIX = 'profiles.';
+
+// The version isn't signed: it only says how to read the rest, and a wrong
+// one already fails migration or validation. Each stored profile is signed on
+// its own, so changing one doesn't cost the others.
+const getSignedFields = ({ version, profiles, ...fields }: RawSave): RawSave => {
+  if (!Array.isArray(profiles)) return profiles === undefined ? fields : { ...fields, profiles };
+  return {
+    ...fields,
+    ...Object.fromEntries(profiles.map((profile, index) => [`${PROFILE_FIELD_PREFIX}${index}`, profile])),
+  };
+};
+
+// The save and its signatures go in one multiSet so neither can land without
+// the other. An unsigned save is written with null signatures.
+export const writeSave = (data: SaveData): Promise<void> => {
+  const json = JSON.stringify(data);
+  const write = writeQueue.then(async () => {
+    const key = await getKeyIfAvailable();
+    const signatures = key ? await signFields(key.bytes, getSignedFields(data as unknown as RawSave)) : null;
+    await AsyncStorage.multiSet([[SAVE_KEY, json], [SIGNATURES_KEY, JSON.stringify(signatures)]]);
+  });
+  writeQueue = write.catch(() => undefined);
+  return write;
+};
+
+// Scores that can't be shown to have been played on this device stay on it:
+// its leaderboard entries are marked so they're never uploaded, and scores
+// still waiting to upload are dropped. Everything else is kept, having
+// passed the same validation as any save.
+export const markUnverified = (save: SaveData): SaveData => {
+  const withoutQueue = <T extends ProfileData>(profile: T): T => ({ ...profile, pendingScores: [] });
+  return {
+    ...withoutQueue(save),
+    profiles: save.profiles.map(withoutQueue),
+    leaderboard: save.leaderboard.map(entry => ({ ...entry, isUnverified: true })),
+  };
+};
+
+// Moves fields that were changed outside the game aside, so they fall back to
+// their defaults; a changed profile is reset, keeping its name. A save this
+// device can't check (its key is new or unavailable, or the save was written
+// unsigned) isn't trusted either way: it loads as unverified.
+const quarantineModifiedFields = async (
+  raw: RawSave,
+  key: SigningKey | null,
+): Promise<{ save: RawSave; issues: string[]; isVerified: boolean }> => {
+  const signatures = parseJson(await AsyncStorage.getItem(SIGNATURES_KEY));
+  if (!key || key.isNew || signatures === null) {
+    return { save: raw, issues: [], isVerified: false };
+  }
+
+  const signedFields = getSignedFields(raw);
+  const modified = await findModifiedFields(
+    key.bytes,
+    signedFields,
+    isRecord(signatures) ? (signatures as Record<string, string>) : {},
+  );
+  if (modified.length === 0) return { save: raw, issues: [], isVerified: true };
+
+  const quarantine = parseJson(await AsyncStorage.getItem(QUARANTINE_KEY));
+  await AsyncStorage.setItem(QUARANTINE_KEY, JSON.stringify([
+    ...(Array.isArray(quarantine) ? quarantine : []),
+    { quarantinedAt: Date.now(), values: Object.fromEntries(modified.map(field => [field, signedFields[field]])) },
+  ]));
+
+  const issues: string[] = [];
+  const save = Object.fromEntries(Object.entries(raw).filter(([field]) => !modified.includes(field)));
+  if (Array.isArray(raw.profiles)) {
+    save.profiles = raw.profiles.map((profile, index) => {
+      if (!modified.includes(`${PROFILE_FIELD_PREFIX}${index}`)) return profile;
+
+      const name = isRecord(profile) && typeof profile.playerName === 'string' ? profile.playerName : createDefaultSave().playerName;
+      issues.push(`The profile ${name} was changed outside the game and has been reset`);
+      return { ...createDefaultProfile(name), ...(isRecord(profile) && isPlayerId(profile.playerId) ? { playerId: profile.playerId } : {}) };
+    });
+  }
+  modified
+    .filter(field => !field.startsWith(PROFILE_FIELD_PREFIX))
+    .forEach(field => issues.push(`${field} was changed outside the game and has been reset`));
+
+  // What's left was signed by this device
+  return { save, issues, isVerified: true };
+};
+
+export const loadSave = async (): Promise<SaveLoadResult> => {
+  const stored = await AsyncStorage.getItem(SAVE_KEY);
+  const key = await getKeyIfAvailable();
+  const issues: string[] = [];
+  let raw: RawSave | null = null;
+  let isVerified = true;
+
+  if (!key) {
+    issues.push("Your save can't be protected on this device right now. Progress is still saved, but scores so far won't be uploaded");
+  }
+
+  if (stored !== null) {
+    const parsed = parseJson(stored);
+    if (isRecord(parsed)) {
+      const verified = await quarantineModifiedFields(parsed, key);
+      raw = verified.save;
+      isVerified = verified.isVerified;
+      issues.push(...verified.issues);
+    } else {
+      issues.push('Save data could not be read and has been reset');
+      await AsyncStorage.setItem(CORRUPTED_SAVE_KEY, stored);
+    }
+  } else if (!key || key.isNew) {
+    raw = await readLegacySave();
+    isVerified = false;
+  } else {
+    // Signing only starts once the legacy keys are migrated, so legacy keys
+    // showing up afterwards were put there by hand
+    await AsyncStorage.multiRemove(Object.values(LEGACY_KEYS));
+  }
+
+  let migrated: RawSave = {};
+  if (raw) {
+    try {
+      migrated = migrateSave(raw);
+    } catch (error) {
+      issues.push(`Save data could not be upgraded: ${error instanceof Error ? error.message : error}`);
+      await AsyncStorage.setItem(CORRUPTED_SAVE_KEY, JSON.stringify(raw));
+    }
+  }
+
+  const result = validateSave(migrated);
+  const data = isVerified ? result.data : markUnverified(result.data);
+  await writeSave(data);
+
+  // Only drop the legacy keys once their contents are safely in the new document
+  if (stored === null && raw) {
+    await AsyncStorage.multiRemove(Object.values(LEGACY_KEYS));
+  }
+
+  return { data, issues: [...issues, ...result.issues] };
+};
@@ -0,0 +1,243 @@
+import { Achievement, CoinTransaction, ProfileData, SaveData } from '../types/game';
+import { MAX_PLAYER_NAME_LENGTH } from '../game/player';
+import { getAllProfiles, getNamesInUse, renameProfile } from '../game/profiles';
+import { pruneRunHistory, queueSubmission, recordRun } from '../game/leaderboard';
+import { markUnverified, migrateSave, SAVE_VERSION, SaveLoadResult, validateSave } from './saveGame';
+import { getLedgerBalance } from './wallet';
+import { getSigningKey, signMessage } from './integrity';
+
+const EXPORT_FORMAT = 'juggleJamSave';
+const CODE_PREFIX = 'JJ1.';
+
+// A whole save as it leaves the device, as a file or a code. The checksum
+// catches files and codes that were damaged or cut short on the way. The
+// signature uses the same device key as the stored save (services/integrity.ts),
+// so only this device can vouch for an export; others still import it, but
+// keep its scores off the online leaderboard.
+export interface SaveExport {
+  format: typeof EXPORT_FORMAT;
+  exportedAt: number;
+  checksum: string;
+  signature: string;
+  save: SaveData;
+}
+
+export interface SaveImport extends SaveLoadResult {
+  exportedAt: number;
+  isVerified: boolean; // exported by this device and unchanged since
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+// cyrb53: a fast 53-bit string hash, plenty for spotting accidental damage
+const hashString = (text: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+// Empty when the device's key can't be reached; the export then imports as unverified everywhere
+const signSave = async (json: string) => {
+  try {
+    return await signMessage((await getSigningKey()).bytes, json);
+  } catch (error) {
+    console.log('Save signing is unavailable:', error);
+    return '';
+  }
+};
+
+export const createSaveExport = async (save: SaveData, exportedAt: number): Promise<SaveExport> => {
+  const json = JSON.stringify(save);
+  return {
+    format: EXPORT_FORMAT,
+    exportedAt,
+    checksum: hashString(json),
+    signature: await signSave(json),
+    save,
+  };
+};
+
+// The file format: readable JSON
+export const serializeSaveExport = (saveExport: SaveExport) => JSON.stringify(saveExport, null, 2);
+
+// Codes leave out replays to stay short enough to paste. base64 only takes
+// ASCII, so anything else in names is written as a JSON \u escape first.
+export const encodeSaveCode = async (save: SaveData, exportedAt: number) => {
+  const withoutReplays: SaveData = {
+    ...save,
+    leaderboard: save.leaderboard.map(({ bestTimeReplay, bestCoinsReplay, bestPointsReplay, ...entry }) => entry),
+  };
+  const json = JSON.stringify(await createSaveExport(withoutReplays, exportedAt))
+    .replace(/[\u007f-\uffff]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+  return `${CODE_PREFIX}${btoa(json)}`;
+};
+
+// An import this device can't vouch for, such as one exported on another
+// phone or before a reinstall, comes across whole but its scores stay here
+const asUnverified = (save: SaveData): { save: SaveData; issues: string[] } => {
+  const hasScores = save.leaderboard.length > 0 || getAllProfiles(save).some(profile => profile.pendingScores.length > 0);
+  return {
+    save: markUnverified(save),
+    issues: hasScores ? ["The save wasn't exported on this device, so its scores stay here and won't be uploaded"] : [],
+  };
+};
+
+// Reads a file's contents or a code back into a save. Throws with a message
+// for the player when it can't be used; repairs, and what happens to the
+// scores of a save that can't be verified, are reported as issues.
+export const readSaveImport = async (text: string): Promise<SaveImport> => {
+  const trimmed = text.trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed.startsWith(CODE_PREFIX) ? atob(trimmed.slice(CODE_PREFIX.length).replace(/\s+/g, '')) : trimmed);
+  } catch {
+    throw new Error("That isn't a Juggle Jam save file or code");
+  }
+
+  const saveExport = parsed as Partial<SaveExport> | null;
+  if (typeof saveExport !== 'object' || saveExport === null || saveExport.format !== EXPORT_FORMAT || !saveExport.save) {
+    throw new Error("That isn't a Juggle Jam save file or code");
+  }
+  const json = JSON.stringify(saveExport.save);
+  if (saveExport.checksum !== hashString(json)) {
+    throw new Error('The save is damaged or incomplete; try exporting it again');
+  }
+  if (typeof saveExport.save.version === 'number' && saveExport.save.version > SAVE_VERSION) {
+    throw new Error('The save was made by a newer version of the game; update the game first');
+  }
+
+  const exportedAt = typeof saveExport.exportedAt === 'number' ? saveExport.exportedAt : 0;
+  const signature = await signSave(json);
+  const isVerified = signature !== '' && saveExport.signature === signature;
+  const { data, issues } = validateSave(migrateSave(saveExport.save as unknown as Record<string, unknown>));
+  if (isVerified) return { data, issues, exportedAt, isVerified };
+
+  const unverified = asUnverified(data);
+  return { data: unverified.save, issues: [...issues, ...unverified.issues], exportedAt, isVerified };
+};
+
+const unionBy = <T>(items: T[], getKey: (item: T) => string) =>
+  items.filter((item, index) => items.findIndex(other => getKey(other) === getKey(item)) === index);
+
+const maxPerKey = <K extends string>(a: Record<K, number>, b: Record<K, number>): Record<K, number> => {
+  const merged = { ...a };
+  (Object.keys(b) as K[]).forEach(key => {
+    merged[key] = Math.max(merged[key] ?? 0, b[key]);
+  });
+  return merged;
+};
+
+const mergeAchievements = (a: Achievement[], b: Achievement[]) =>
+  a.map(achievement => {
+    const other = b.find(candidate => candidate.id === achievement.id);
+    if (!other) return achievement;
+    return {
+      ...achievement,
+      progress: Math.max(achievement.progress, other.progress),
+      completed: achievement.completed || other.completed,
+    };
+  });
+
+// The same profile from two devices: progress is combined, while choices
+// (name, skin, difficulty) stay as they are on this device. The login
+// streak and its rewards come from whichever copy logged in more recently.
+const mergeProfile = (device: ProfileData, imported: ProfileData): ProfileData => {
+  const coinLedger: CoinTransaction[] = unionBy([...device.coinLedger, ...imported.coinLedger], transaction => transaction.id)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const getLoginTime = (profile: ProfileData) => Date.parse(profile.lastLoginDate) || 0;
+  const latestLogin = getLoginTime(imported) > getLoginTime(device) ? imported : device;
+
+  return {
+    ...device,
+    highScores: maxPerKey(device.highScores, imported.highScores),
+    collectedCoins: getLedgerBalance(coinLedger),
+    coinLedger,
+    powerUpInventory: maxPerKey(device.powerUpInventory, imported.powerUpInventory),
+    levelStars: maxPerKey(device.levelStars, imported.levelStars),
+    dailyChallengeDate: device.dailyChallengeDate > imported.dailyChallengeDate ? device.dailyChallengeDate : imported.dailyChallengeDate,
+    unlockedSkins: unionBy([...device.unlockedSkins, ...imported.unlockedSkins], skin => skin),
+    friendIds: unionBy([...device.friendIds, ...imported.friendIds], id => id),
+    pendingScores: imported.pendingScores.reduce(queueSubmission, device.pendingScores),
+    dailyRewards: latestLogin.dailyRewards,
+    lastLoginDate: latestLogin.lastLoginDate,
+    currentStreak: latestLogin.currentStreak,
+    achievements: mergeAchievements(device.achievements, imported.achievements),
+    totalGamesPlayed: Math.max(device.totalGamesPlayed, imported.totalGamesPlayed),
+  };
+};
+
+// A name that isn't in use yet, e.g. "Sam 2" when "Sam" is taken
+const getFreeName = (name: string, namesInUse: string[]) => {
+  const isFree = (candidate: string) => !namesInUse.some(used => used.toLowerCase() === candidate.toLowerCase());
+  if (isFree(name)) return name;
+
+  for (let suffix = 2; ; suffix++) {
+    const ending = ` ${suffix}`;
+    const candidate = `${name.slice(0, MAX_PLAYER_NAME_LENGTH - ending.length)}${ending}`;
+    if (isFree(candidate)) return candidate;
+  }
+};
+
+// Renames the imported profiles so they line up with this device: a profile
+// the device already has takes the device's name, and a new one whose name is
+// taken gets a free one. New ones go first so they're out of the way.
+const alignProfileNames = (device: SaveData, imported: SaveData) => {
+  const deviceProfiles = getAllProfiles(device);
+  const findOnDevice = (profile: ProfileData) => deviceProfiles.find(existing => existing.playerId === profile.playerId);
+  const importedProfiles = getAllProfiles(imported);
+  const namesInUse = getNamesInUse(device);
+  let aligned = imported;
+
+  importedProfiles.filter(profile => !findOnDevice(profile)).forEach(profile => {
+    const name = getFreeName(profile.playerName, namesInUse);
+    namesInUse.push(name);
+    if (name !== profile.playerName) aligned = renameProfile(aligned, profile.playerId, name);
+  });
+  importedProfiles.forEach(profile => {
+    const existing = findOnDevice(profile);
+    if (existing && existing.playerName !== profile.playerName) {
+      aligned = renameProfile(aligned, profile.playerId, existing.playerName);
+    }
+  });
+  return aligned;
+};
+
+// Brings an imported save into the one on this device. Profiles are matched
+// by id: new ones are added and shared ones merged. Leaderboard entries keep
+// the best scores. The active profile and the device's settings stay as they are.
+export const mergeSaves = (device: SaveData, imported: SaveData, now: number): SaveData => {
+  const incoming = alignProfileNames(device, imported);
+  const deviceProfiles = getAllProfiles(device);
+  const incomingProfiles = getAllProfiles(incoming);
+  const isOnDevice = (profile: ProfileData) => deviceProfiles.some(existing => existing.playerId === profile.playerId);
+
+  const [active, ...others] = [
+    ...deviceProfiles.map(profile => {
+      const match = incomingProfiles.find(other => other.playerId === profile.playerId);
+      return match ? mergeProfile(profile, match) : profile;
+    }),
+    ...incomingProfiles.filter(profile => !isOnDevice(profile)),
+  ];
+
+  return {
+    ...device,
+    ...active,
+    profiles: others,
+    adsRemoved: device.adsRemoved || incoming.adsRemoved,
+    leaderboard: incoming.leaderboard.reduce((board, entry) => recordRun(board, entry).leaderboard, device.leaderboard),
+    runHistory: pruneRunHistory(
+      unionBy([...device.runHistory, ...incoming.runHistory], run => `${run.playerName}:${run.timestamp}`),
+      now,
+    ),
+  };
+};
+
+export const applySaveImport = (device: SaveData, imported: SaveData, mode: ImportMode, now: number): SaveData =>
+  mode === 'replace' ? imported : mergeSaves(device, imported, now);
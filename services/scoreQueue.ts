@@ -0,0 +1,53 @@
+import { ScoreSubmission } from '../types/game';
+import { queueSubmission } from '../game/leaderboard';
+import { LeaderboardClient } from './leaderboardClient';
+
+export interface ScoreQueue {
+  enqueue: (submission: ScoreSubmission) => Promise<boolean>;
+  flush: () => Promise<boolean>; // resolves to whether nothing is left waiting
+}
+
+// Score submissions are persisted before they're sent, so a score set offline
+// (or when the app closes mid-request) reaches the server on a later flush.
+// Like the wallet, operations run one at a time against the latest queue.
+export const createScoreQueue = (
+  client: LeaderboardClient | null,
+  initial: ScoreSubmission[],
+  persist: (pending: ScoreSubmission[]) => Promise<void>,
+): ScoreQueue => {
+  let pending = initial;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const run = <T>(operation: () => Promise<T>): Promise<T> => {
+    const result = queue.then(operation);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const flush = () =>
+    run(async () => {
+      if (pending.length === 0) return true;
+      if (!client) return false;
+
+      try {
+        await client.submit(pending);
+      } catch (error) {
+        console.log('Leaderboard unreachable, scores stay queued:', error);
+        return false;
+      }
+      await persist([]);
+      pending = [];
+      return true;
+    });
+
+  const enqueue = async (submission: ScoreSubmission) => {
+    await run(async () => {
+      const next = queueSubmission(pending, submission);
+      await persist(next);
+      pending = next;
+    });
+    return flush();
+  };
+
+  return { enqueue, flush };
+};
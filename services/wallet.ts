@@ -0,0 +1,79 @@
+import { CoinTransaction, CoinTransactionType } from '../types/game';
+
+// Central coin wallet. Every balance change is a typed transaction appended
+// to the ledger; nothing else is allowed to write the balance.
+export interface Wallet {
+  balance: number;
+  ledger: CoinTransaction[];
+}
+
+export interface TransactionRequest {
+  type: CoinTransactionType;
+  amount: number;
+  description: string;
+  reference?: string;
+}
+
+export const getSignedAmount = (transaction: Pick<CoinTransaction, 'type' | 'amount'>) =>
+  transaction.type === 'spend' ? -transaction.amount : transaction.amount;
+
+export const getLedgerBalance = (ledger: CoinTransaction[]) =>
+  ledger.reduce((balance, transaction) => balance + getSignedAmount(transaction), 0);
+
+// Pure: returns the wallet with the transaction applied, or the same wallet
+// if a transaction with this reference was already recorded
+export const applyTransaction = (wallet: Wallet, request: TransactionRequest, timestamp: number): Wallet => {
+  if (!Number.isInteger(request.amount) || request.amount <= 0) {
+    throw new Error(`Invalid coin amount: ${request.amount}`);
+  }
+  if (request.reference && wallet.ledger.some(transaction => transaction.reference === request.reference)) {
+    return wallet;
+  }
+
+  const balance = wallet.balance + getSignedAmount(request);
+  if (balance < 0) {
+    throw new Error(`Not enough coins: ${wallet.balance} available, ${request.amount} needed`);
+  }
+
+  const transaction: CoinTransaction = {
+    id: `${timestamp}_${wallet.ledger.length}`,
+    type: request.type,
+    amount: request.amount,
+    balanceAfter: balance,
+    description: request.description,
+    reference: request.reference,
+    timestamp,
+  };
+
+  return { balance, ledger: [...wallet.ledger, transaction] };
+};
+
+export interface WalletService {
+  getWallet: () => Wallet;
+  transact: (request: TransactionRequest) => Promise<Wallet>;
+}
+
+// Transactions run one at a time against the latest wallet. Each is persisted
+// before it's applied in memory, so a failed write leaves the balance untouched.
+export const createWalletService = (initial: Wallet, persist: (wallet: Wallet) => Promise<void>): WalletService => {
+  let wallet = initial;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const transact = (request: TransactionRequest): Promise<Wallet> => {
+    const result = queue.then(async () => {
+      const next = applyTransaction(wallet, request, Date.now());
+      if (next !== wallet) {
+        await persist(next);
+        wallet = next;
+      }
+      return wallet;
+    });
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    getWallet: () => wallet,
+    transact,
+  };
+};
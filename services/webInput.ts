@@ -0,0 +1,156 @@
+// Keyboard and gamepad input for the web build. Both are reduced to the same
+// small set of actions; the engine decides what an action means on each screen.
+export type InputAction = 'kick' | 'confirm' | 'back' | 'pause' | 'up' | 'down';
+
+const KEY_ACTIONS: Record<string, InputAction> = {
+  ' ': 'kick',
+  Enter: 'confirm',
+  Escape: 'back',
+  p: 'pause',
+  P: 'pause',
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+};
+
+// Buttons in the browser's standard gamepad layout
+const GAMEPAD_ACTIONS: Record<number, InputAction> = {
+  0: 'confirm', // A / cross
+  1: 'back', // B / circle
+  9: 'pause', // Start
+  12: 'up', // D-pad
+  13: 'down',
+};
+const GAMEPAD_LEFT = 14;
+const GAMEPAD_RIGHT = 15;
+const STICK_DEAD_ZONE = 0.3;
+
+export interface WebInput {
+  getDirection: () => -1 | 0 | 1; // held left/right, for aiming kicks
+  setGamepadActive: (active: boolean) => void; // gamepads are only read while this is on
+  dispose: () => void;
+}
+
+const FOCUSABLE_SELECTOR = '[tabindex]:not([tabindex="-1"])';
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+
+// A focused button handles Enter itself; only fall back to the screen's
+// default action when nothing is focused
+const getFocusedControl = () => {
+  const element = document.activeElement;
+  return element instanceof HTMLElement && element !== document.body && element.matches(FOCUSABLE_SELECTOR) ? element : null;
+};
+
+// Moves keyboard focus to the next or previous visible control on the page
+export const moveFocus = (offset: 1 | -1) => {
+  const controls = Array.from(document.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)).filter(
+    element => element.offsetParent !== null,
+  );
+  if (controls.length === 0) return;
+
+  const current = controls.indexOf(document.activeElement as HTMLElement);
+  const next = current < 0 ? (offset > 0 ? 0 : controls.length - 1) : (current + offset + controls.length) % controls.length;
+  controls[next].focus();
+};
+
+export const createWebInput = (onAction: (action: InputAction) => void): WebInput => {
+  const heldKeys = new Set<string>();
+  let gamepadDirection: -1 | 0 | 1 = 0;
+  let previousButtons: boolean[] = [];
+  let frame: number | null = null;
+  let isGamepadActive = false;
+  let connectedGamepads = 0;
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (isTyping(event.target)) return;
+
+    heldKeys.add(event.key);
+    const action = KEY_ACTIONS[event.key];
+    if (!action || event.repeat) return;
+    if ((action === 'confirm' || action === 'kick') && getFocusedControl()) return;
+
+    event.preventDefault(); // keeps space and the arrows from scrolling the page
+    onAction(action);
+  };
+
+  const onKeyUp = (event: KeyboardEvent) => {
+    heldKeys.delete(event.key);
+  };
+
+  // Browsers only report gamepads by polling, so buttons are compared frame to
+  // frame. Polling only runs while a gamepad is connected and gamepad input is on.
+  const pollGamepads = () => {
+    const gamepad = navigator.getGamepads?.().find(pad => pad?.mapping === 'standard') ?? null;
+    if (gamepad) {
+      const buttons = gamepad.buttons.map(button => button.pressed);
+      buttons.forEach((pressed, index) => {
+        const action = GAMEPAD_ACTIONS[index];
+        if (!pressed || previousButtons[index] || !action) return;
+
+        const focused = action === 'confirm' ? getFocusedControl() : null;
+        if (focused) {
+          focused.click();
+        } else {
+          onAction(action);
+        }
+      });
+      previousButtons = buttons;
+
+      const stickX = gamepad.axes[0] ?? 0;
+      const left = buttons[GAMEPAD_LEFT] || stickX < -STICK_DEAD_ZONE;
+      const right = buttons[GAMEPAD_RIGHT] || stickX > STICK_DEAD_ZONE;
+      gamepadDirection = left === right ? 0 : left ? -1 : 1;
+    }
+    frame = requestAnimationFrame(pollGamepads);
+  };
+
+  const updatePolling = () => {
+    const shouldPoll = isGamepadActive && connectedGamepads > 0;
+    if (shouldPoll && frame === null) {
+      frame = requestAnimationFrame(pollGamepads);
+    } else if (!shouldPoll && frame !== null) {
+      cancelAnimationFrame(frame);
+      frame = null;
+      gamepadDirection = 0;
+    }
+  };
+
+  const onGamepadConnected = () => {
+    connectedGamepads++;
+    updatePolling();
+  };
+
+  const onGamepadDisconnected = () => {
+    connectedGamepads = Math.max(0, connectedGamepads - 1);
+    updatePolling();
+  };
+
+  const setGamepadActive = (active: boolean) => {
+    isGamepadActive = active;
+    updatePolling();
+  };
+
+  window.addEventListener('keydown', onKeyDown);
+  window.addEventListener('keyup', onKeyUp);
+  // Browsers announce a gamepad once it's first used, including one plugged in before the page loaded
+  window.addEventListener('gamepadconnected', onGamepadConnected);
+  window.addEventListener('gamepaddisconnected', onGamepadDisconnected);
+
+  const getDirection = (): -1 | 0 | 1 => {
+    const left = heldKeys.has('ArrowLeft');
+    const right = heldKeys.has('ArrowRight');
+    if (left !== right) return left ? -1 : 1;
+    return gamepadDirection;
+  };
+
+  const dispose = () => {
+    window.removeEventListener('keydown', onKeyDown);
+    window.removeEventListener('keyup', onKeyUp);
+    window.removeEventListener('gamepadconnected', onGamepadConnected);
+    window.removeEventListener('gamepaddisconnected', onGamepadDisconnected);
+    setGamepadActive(false);
+  };
+
+  return { getDirection, setGamepadActive, dispose };
+};
@@ -1,3 +1,4 @@
+// Entity positions are centres in screen coordinates (y grows downward)
 export interface Vector2 {
   x: number;
   y: number;
@@ -9,13 +10,18 @@ export interface Ball {
   radius: number;
 }
 
+export type ObstacleType = 'cone' | 'goalpost' | 'defender';
+
 export interface Obstacle {
   id: string;
   position: Vector2;
   velocity: Vector2;
-  type: 'cone' | 'goalpost' | 'defender';
+  type: ObstacleType;
   width: number;
   height: number;
+  age: number; // seconds of world time since it spawned
+  baseY: number; // y of the lane it spawned in
+  closeToBall?: boolean; // ball is within near-miss range
 }
 
 export interface Coin {
@@ -26,20 +32,83 @@ export interface Coin {
   value: number;
 }
 
-export type GameScreen = 'menu' | 'playing' | 'gameOver' | 'store' | 'leaderboard' | 'achievements';
+export type PowerUpType = 'shield' | 'magnet' | 'slowMotion' | 'doubleCoins';
+
+export interface PowerUp {
+  id: string;
+  position: Vector2;
+  velocity: Vector2;
+  radius: number;
+  type: PowerUpType;
+}
+
+export interface PowerUpInfo {
+  type: PowerUpType;
+  name: string;
+  emoji: string;
+  description: string;
+  duration: number; // seconds
+  coinPrice: number; // to start a run with it
+}
+
+export type GameScreen = 'menu' | 'playing' | 'paused' | 'gameOver' | 'store' | 'leaderboard' | 'achievements' | 'replay' | 'coinHistory' | 'levelSelect' | 'settings' | 'profiles';
 
 export interface LeaderboardEntry {
   id: string;
+  playerId?: string; // set on entries that came from or went to the leaderboard server
   playerName: string;
+  difficulty: DifficultyPresetId; // each preset has its own board
+  challengeDate?: string; // set on daily challenge entries, one board per day
   bestTime: number;
   bestCoins: number;
   bestTimeTimestamp: number;
   bestCoinsTimestamp: number;
   bestTimeSkin: string;
   bestCoinsSkin: string;
+  bestTimeReplay?: Replay;
+  bestCoinsReplay?: Replay;
+  bestPoints: number;
+  bestPointsTimestamp: number;
+  bestPointsSkin: string;
+  bestPointsReplay?: Replay;
+  isUnverified?: boolean; // holds bests from an import that couldn't be verified, so it's never uploaded
 }
 
-export type LeaderboardCategory = 'time' | 'coins';
+export type LeaderboardCategory = 'time' | 'coins' | 'points';
+
+// The endless board of a preset, or the daily challenge board
+export type LeaderboardBoard = DifficultyPresetId | 'daily';
+
+// The period a leaderboard covers. Days and weeks (from Monday) roll over at
+// midnight UTC, like the daily challenge.
+export type LeaderboardWindow = 'today' | 'week' | 'allTime';
+
+// One finished run's scores
+export interface RunScore {
+  time: number; // whole seconds survived
+  coins: number;
+  points: number;
+  skin: string;
+  timestamp: number;
+}
+
+// A run kept on the device for the today and this week boards
+export interface RunRecord extends RunScore {
+  playerName: string;
+  difficulty: DifficultyPresetId;
+  challengeDate?: string;
+}
+
+// Whose scores a leaderboard shows: everyone online, the player and their
+// friends, or only the entries stored on this device
+export type LeaderboardScope = 'global' | 'friends' | 'device';
+
+// A player's bests on one board as sent to the leaderboard server, with the
+// runs that were new since the last submission. Replays stay on the device.
+export type ScoreSubmission = Omit<LeaderboardEntry, 'id' | 'bestTimeReplay' | 'bestCoinsReplay' | 'bestPointsReplay' | 'isUnverified'> & {
+  playerId: string;
+  runs?: RunScore[];
+};
 
 export interface DailyReward {
   day: number;
@@ -70,12 +139,12 @@ export interface BallSkin {
 }
 
 export interface GameState {
-  ball: Ball;
-  obstacles: Obstacle[];
-  coins: Coin[];
-  score: number;
-  highScore: number;
+  simulation: SimulationState;
+  difficulty: DifficultyPresetId;
+  highScores: Record<DifficultyPresetId, number>;
   collectedCoins: number;
+  coinLedger: CoinTransaction[];
+  powerUpInventory: Record<PowerUpType, number>;
   currentScreen: GameScreen;
   selectedSkin: string;
   unlockedSkins: string[];
@@ -83,19 +152,248 @@ export interface GameState {
   leaderboard: LeaderboardEntry[];
   playerName: string;
   leaderboardCategory: LeaderboardCategory;
+  leaderboardBoard: LeaderboardBoard;
+  leaderboardScope: LeaderboardScope;
+  leaderboardWindow: LeaderboardWindow;
+  runHistory: RunRecord[];
+  playerId: string;
+  friendIds: string[];
+  pendingScores: ScoreSubmission[];
+  currentLevelId: string | null; // stage being played, null in endless mode
+  currentChallengeDate: string | null; // daily challenge being played
+  dailyChallengeDate: string; // UTC date of the last daily challenge attempt
+  audioSettings: AudioSettings;
+  settings: PlayerSettings;
+  levelStars: Record<string, number>; // best star rating per level id
   dailyRewards: DailyReward[];
   lastLoginDate: string;
   currentStreak: number;
   achievements: Achievement[];
   totalGamesPlayed: number;
+  profiles: ProfileData[];
   canWatchAdToContinue: boolean;
 }
 
-export interface GameConfig {
+// Volumes run from 0 to 1; a disabled channel stays silent whatever its volume
+export interface AudioSettings {
+  musicEnabled: boolean;
+  musicVolume: number;
+  sfxEnabled: boolean;
+  sfxVolume: number;
+}
+
+export interface PlayerSettings {
+  hapticsEnabled: boolean;
+  leftHanded: boolean; // mirrors the in-game HUD
+  controlSensitivity: number; // scales the sideways kick of a tap, 0.5 to 1.5
+  controlScheme: ControlScheme;
+}
+
+// 'tap' kicks the ball up and toward the side of the screen that's tapped; 'gesture'
+// adds swipes to aim kicks and long presses to charge a power kick
+export type ControlScheme = 'tap' | 'gesture';
+
+export type CoinTransactionType = 'earn' | 'spend' | 'reward' | 'refund';
+
+// One entry in the append-only coin ledger; the wallet balance is the sum of all entries
+export interface CoinTransaction {
+  id: string;
+  type: CoinTransactionType;
+  amount: number; // always positive; spends are subtracted
+  balanceAfter: number;
+  description: string;
+  reference?: string; // idempotency key, a transaction with the same reference is only applied once
+  timestamp: number;
+}
+
+// Everything persisted between sessions, stored as one versioned document
+export interface SaveData {
+  version: number;
+  difficulty: DifficultyPresetId; // last selected preset
+  highScores: Record<DifficultyPresetId, number>;
+  collectedCoins: number;
+  coinLedger: CoinTransaction[];
+  powerUpInventory: Record<PowerUpType, number>; // starting power-ups bought in the store
+  levelStars: Record<string, number>;
+  dailyChallengeDate: string;
+  audioSettings: AudioSettings;
+  settings: PlayerSettings;
+  unlockedSkins: string[];
+  selectedSkin: string;
+  adsRemoved: boolean;
+  leaderboard: LeaderboardEntry[];
+  runHistory: RunRecord[]; // runs since the start of the current week
+  playerName: string;
+  playerId: string; // identifies the player to the leaderboard server; also their friend code
+  friendIds: string[];
+  pendingScores: ScoreSubmission[]; // submissions waiting for the server to be reachable
+  dailyRewards: DailyReward[];
+  lastLoginDate: string;
+  currentStreak: number;
+  achievements: Achievement[];
+  totalGamesPlayed: number;
+  profiles: ProfileData[]; // the other profiles on the device; the active one is the rest of this document
+}
+
+// The parts of a save that belong to one player profile. Everything else
+// (the device leaderboard, settings and purchases) is shared by every profile.
+export type ProfileField =
+  | 'difficulty'
+  | 'highScores'
+  | 'collectedCoins'
+  | 'coinLedger'
+  | 'powerUpInventory'
+  | 'levelStars'
+  | 'dailyChallengeDate'
+  | 'unlockedSkins'
+  | 'selectedSkin'
+  | 'playerName'
+  | 'playerId' // doubles as the profile's id
+  | 'friendIds'
+  | 'pendingScores'
+  | 'dailyRewards'
+  | 'lastLoginDate'
+  | 'currentStreak'
+  | 'achievements'
+  | 'totalGamesPlayed';
+
+export type ProfileData = Pick<SaveData, ProfileField>;
+
+// A value that changes over a run. Keyframes are sorted by time in seconds;
+// the value is interpolated linearly between them and held after the last one.
+export type DifficultyCurve = { time: number; value: number }[];
+
+export interface DifficultyCurves {
+  obstacleSpeed: DifficultyCurve; // px/s
+  spawnRate: DifficultyCurve; // obstacles per second
+  coinRate: DifficultyCurve; // coins per second
+  gravity: DifficultyCurve; // px/s²
+  obstacleMix: Record<ObstacleType, DifficultyCurve>; // relative spawn weights
+}
+
+// The curves sampled at one moment of a run
+export interface Difficulty {
+  obstacleSpeed: number;
+  spawnRate: number;
+  coinRate: number;
   gravity: number;
+  obstacleMix: Record<ObstacleType, number>;
+}
+
+export type DifficultyPresetId = 'easy' | 'normal' | 'hard';
+
+export interface DifficultyPreset {
+  id: DifficultyPresetId;
+  name: string;
+  emoji: string;
+  description: string;
+  curves: DifficultyCurves;
+}
+
+// One authored entity in a level wave. `y` is a fraction of the screen
+// height (0 top, 1 bottom) so levels fit every screen; for goalposts it is
+// the centre of the gap.
+export interface LevelObstacle {
+  type: ObstacleType;
+  side: 'left' | 'right';
+  y: number;
+}
+
+export interface LevelCoin {
+  side: 'left' | 'right';
+  y: number;
+  value: number;
+}
+
+// Entities that enter the screen together, `time` seconds into the level
+export interface LevelWave {
+  time: number;
+  obstacles?: LevelObstacle[];
+  coins?: LevelCoin[];
+}
+
+export type LevelGoal =
+  | { kind: 'survive'; seconds: number }
+  | { kind: 'collect'; coins: number };
+
+export interface LevelDefinition {
+  id: string;
+  name: string;
+  preset: DifficultyPresetId; // supplies gravity and obstacle speed
+  goal: LevelGoal;
+  starCoins: [number, number]; // coins needed for the second and third star
+  waves: LevelWave[]; // sorted by time
+}
+
+export interface GameConfig {
   ballRadius: number;
   screenWidth: number;
   screenHeight: number;
-  obstacleSpeed: number;
-  spawnRate: number;
-}
\ No newline at end of file
+  curves: DifficultyCurves;
+  level?: LevelDefinition; // stage mode: only the level's waves spawn
+  controlSensitivity?: number; // scales the sideways kick of a tap, 1 when unset
+}
+
+// Everything the simulation core needs to advance one step; kept free of
+// React Native so it can run headless
+export interface SimulationState {
+  config: GameConfig;
+  ball: Ball;
+  obstacles: Obstacle[];
+  coins: Coin[];
+  powerUps: PowerUp[];
+  activePowerUps: Record<PowerUpType, number>; // seconds left, 0 when inactive
+  stats: RunStats;
+  nextEntityId: number;
+  nextWave: number; // index of the next level wave to spawn
+  isOver: boolean;
+  isComplete: boolean; // the level goal was reached
+}
+
+// What happened in a single run, separate from lifetime progress such as the wallet
+export interface RunStats {
+  duration: number; // seconds survived
+  coinsCollected: number;
+  bigCoinsCollected: number; // 5-coin pickups
+  nearMisses: number;
+  taps: number; // taps and gesture kicks; every one kicks the ball, so this is also the juggle count
+  hits: number; // obstacle hits, including ones a shield absorbed
+  combo: number; // juggles in a row inside the combo band
+  bestCombo: number;
+  jugglePoints: number; // points from juggles so far, each scaled by the combo it was part of
+}
+
+// A kick from the gesture controls
+export interface Kick {
+  angle: number; // radians from straight up, positive to the right
+  strength: number; // 0 to 1 for a swipe, above 1 for a charged power kick
+}
+
+export interface SimulationInput {
+  taps: Vector2[];
+  kicks: Kick[];
+}
+
+export interface ReplayInput {
+  step: number; // fixed simulation step the tap was applied on
+  x: number;
+  y: number;
+}
+
+export interface ReplayKick extends Kick {
+  step: number;
+}
+
+// A run recorded as its seed plus every tap, enough to play it back exactly
+export interface Replay {
+  seed: number;
+  config: GameConfig;
+  skin: string;
+  startingPowerUps: PowerUpType[];
+  inputs: ReplayInput[];
+  kicks?: ReplayKick[]; // missing from replays recorded before gesture controls
+  revives: number[]; // steps on which the run was continued after an ad
+  simulationVersion: number;
+  totalSteps: number;
+  recordedAt: number;
+}